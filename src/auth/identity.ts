@@ -0,0 +1,22 @@
+import type { User } from "@supabase/supabase-js";
+import type { ProfileIdentity } from "@/lib/db";
+
+/**
+ * Name, avatar and handle from the X identity. Supabase stores them under
+ * both its own and the provider's key names, depending on the flow.
+ */
+export function identityFromUser(user: User): ProfileIdentity {
+  const metadata = user.user_metadata ?? {};
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = metadata[key];
+      if (typeof value === "string" && value.trim()) return value.trim();
+    }
+    return null;
+  };
+  return {
+    full_name: pick("name", "full_name"),
+    avatar_url: pick("avatar_url", "picture"),
+    username: pick("user_name", "preferred_username"),
+  };
+}
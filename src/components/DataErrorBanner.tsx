@@ -0,0 +1,41 @@
+import { AlertTriangle, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { describeError } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+interface DataErrorBannerProps {
+  error: unknown;
+  onRetry: () => void;
+  /** Disables the button while the retry is in flight */
+  retrying?: boolean;
+  className?: string;
+}
+
+/** Recoverable load failure with a retry action */
+export function DataErrorBanner({
+  error,
+  onRetry,
+  retrying = false,
+  className,
+}: DataErrorBannerProps) {
+  return (
+    <div
+      role='alert'
+      className={cn(
+        "flex items-center gap-3 rounded-lg border border-destructive/60 bg-card px-4 py-2 shadow-xl",
+        className,
+      )}>
+      <AlertTriangle className='h-4 w-4 shrink-0 text-destructive' />
+      <p className='text-sm text-foreground'>{describeError(error)}</p>
+      <Button
+        variant='outline'
+        size='sm'
+        className='gap-2 shrink-0'
+        onClick={onRetry}
+        disabled={retrying}>
+        <RotateCw className={cn("h-3.5 w-3.5", retrying && "animate-spin")} />
+        Reintentar
+      </Button>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import type { Session } from "@supabase/supabase-js";
 import { Link } from "@tanstack/react-router";
 import { loginWithX, handleSignOut } from "@/auth/auth";
-import { deleteMyAccount } from "@/lib/db";
+import { identityFromUser } from "@/auth/identity";
+import { deleteMyAccount, type ProfileWithProvince } from "@/lib/db";
+import { MemberSearch } from "@/components/MemberSearch";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { MemberAvatar } from "@/components/MemberAvatar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import {
   AlertDialog,
@@ -16,31 +19,89 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { LogOut, Trash2, Shield } from "lucide-react";
+import {
+  ChartColumn,
+  Check,
+  Download,
+  LogOut,
+  Trash2,
+  Settings,
+  Shield,
+} from "lucide-react";
 import { toast } from "sonner";
+import { describeError } from "@/lib/errors";
+import { collectMyData, dataExportHtml, downloadFile } from "@/lib/dataExport";
+import { myProfileQuery, useSetVisibilityMutation } from "@/lib/queries";
+import { DEFAULT_VISIBILITY, VISIBILITY_OPTIONS } from "@/lib/visibility";
+import type { ProfileVisibility } from "@/lib/db";
+import { cn } from "@/lib/utils";
 
 interface HeaderProps {
   session: Session | null;
+  /** Shows the member search box when provided */
+  onMemberSelect?: (profile: ProfileWithProvince) => void;
 }
 
-export function Header({ session }: HeaderProps) {
+export function Header({ session, onMemberSelect }: HeaderProps) {
   const user = session?.user;
-  const name = user?.user_metadata?.name ?? user?.user_metadata?.full_name ?? "";
-  const avatarUrl =
-    user?.user_metadata?.avatar_url ?? user?.user_metadata?.picture ?? "";
 
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
 
+  const userId = user?.id ?? null;
+  const { data: myProfile } = useQuery({
+    ...myProfileQuery(userId ?? ""),
+    enabled: !!userId,
+  });
+  // The profile holds the synced or edited values; X's are a first-load fallback
+  const identity = user ? identityFromUser(user) : null;
+  const name = myProfile?.full_name ?? identity?.full_name ?? "";
+  const avatarUrl = myProfile?.avatar_url ?? identity?.avatar_url ?? null;
+  const visibility = myProfile?.visibility ?? DEFAULT_VISIBILITY;
+  const setVisibility = useSetVisibilityMutation(userId);
+
+  const handleVisibilityChange = (value: ProfileVisibility) => {
+    if (value === visibility) return;
+    const option = VISIBILITY_OPTIONS.find((o) => o.value === value);
+    setVisibility.mutate(value, {
+      onSuccess: () => toast.success(`Visibilidad: ${option?.label ?? value}`),
+      onError: (error) => toast.error(describeError(error)),
+    });
+  };
+
+  const handleExport = async (format: "json" | "html") => {
+    if (!user) return;
+    setExporting(true);
+    const result = await collectMyData(user);
+    setExporting(false);
+    if (!result.ok) {
+      toast.error(describeError(result.error));
+      return;
+    }
+    const filename = `finxmap-mis-datos-${result.data.generated_at.slice(0, 10)}`;
+    if (format === "json") {
+      downloadFile(
+        `${filename}.json`,
+        JSON.stringify(result.data, null, 2),
+        "application/json",
+      );
+    } else {
+      downloadFile(`${filename}.html`, dataExportHtml(result.data), "text/html");
+    }
+    setExportOpen(false);
+  };
+
   const handleDeleteAccount = async () => {
     setDeleting(true);
     const result = await deleteMyAccount();
-    if (result.success) {
-      toast.success("Tu cuenta ha sido eliminada");
+    if (result.ok) {
+      toast.success("Tu cuenta y todos tus datos han sido eliminados");
       window.location.reload();
     } else {
-      toast.error(`Error: ${result.error}`);
+      toast.error(describeError(result.error));
     }
     setDeleting(false);
     setDeleteOpen(false);
@@ -52,17 +113,32 @@ export function Header({ session }: HeaderProps) {
         <h1 className='text-xl font-bold text-foreground tracking-tight'>FinXMap</h1>
       </Link>
 
+      {onMemberSelect && (
+        <MemberSearch onSelect={onMemberSelect} className='flex-1 max-w-xs mx-4' />
+      )}
+
       {session ? (
         <div className='flex items-center gap-3'>
-          {/* Avatar with dropdown for privacy + delete */}
+          <Link to='/estadisticas'>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant='ghost' size='icon'>
+                  <ChartColumn className='h-4 w-4' />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Estadísticas</TooltipContent>
+            </Tooltip>
+          </Link>
+          {/* Avatar with dropdown for visibility, settings, privacy + delete */}
           <div className='relative'>
             <button
               onClick={() => setMenuOpen((o) => !o)}
               className='flex items-center gap-2 rounded-full focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-card'>
-              <Avatar className='h-8 w-8 cursor-pointer'>
-                <AvatarImage src={avatarUrl} alt={name} />
-                <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
-              </Avatar>
+              <MemberAvatar
+                profile={{ full_name: name, avatar_url: avatarUrl }}
+                size={32}
+                className='h-8 w-8 cursor-pointer'
+              />
               <span className='text-sm font-medium text-foreground hidden sm:inline'>
                 {name}
               </span>
@@ -74,7 +150,43 @@ export function Header({ session }: HeaderProps) {
                   className='fixed inset-0 z-[1001]'
                   onClick={() => setMenuOpen(false)}
                 />
-                <div className='absolute right-0 top-full mt-2 z-[1002] w-52 rounded-lg border border-border bg-card shadow-xl py-1'>
+                <div className='absolute right-0 top-full mt-2 z-[1002] w-72 rounded-lg border border-border bg-card shadow-xl py-1'>
+                  <p className='px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground'>
+                    Visibilidad en el mapa
+                  </p>
+                  {VISIBILITY_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleVisibilityChange(option.value)}
+                      disabled={!myProfile || setVisibility.isPending}
+                      className={cn(
+                        "flex items-start gap-2 w-full px-3 py-1.5 text-left hover:bg-accent transition-colors disabled:opacity-60",
+                        option.value === visibility && "bg-accent/50",
+                      )}>
+                      <Check
+                        className={cn(
+                          "h-4 w-4 mt-0.5 shrink-0 text-primary",
+                          option.value !== visibility && "invisible",
+                        )}
+                      />
+                      <span>
+                        <span className='block text-sm text-foreground'>
+                          {option.label}
+                        </span>
+                        <span className='block text-xs text-muted-foreground'>
+                          {option.description}
+                        </span>
+                      </span>
+                    </button>
+                  ))}
+                  <div className='border-t border-border my-1' />
+                  <Link
+                    to='/ajustes'
+                    onClick={() => setMenuOpen(false)}
+                    className='flex items-center gap-2 px-3 py-2 text-sm text-foreground hover:bg-accent transition-colors'>
+                    <Settings className='h-4 w-4 text-muted-foreground' />
+                    Ajustes del perfil
+                  </Link>
                   <Link
                     to='/privacy'
                     onClick={() => setMenuOpen(false)}
@@ -82,6 +194,15 @@ export function Header({ session }: HeaderProps) {
                     <Shield className='h-4 w-4 text-muted-foreground' />
                     Política de Privacidad
                   </Link>
+                  <button
+                    onClick={() => {
+                      setMenuOpen(false);
+                      setExportOpen(true);
+                    }}
+                    className='flex items-center gap-2 w-full px-3 py-2 text-sm text-foreground hover:bg-accent transition-colors'>
+                    <Download className='h-4 w-4 text-muted-foreground' />
+                    Descargar mis datos
+                  </button>
                   <div className='border-t border-border my-1' />
                   <button
                     onClick={() => {
@@ -109,6 +230,16 @@ export function Header({ session }: HeaderProps) {
         </div>
       ) : (
         <div className='flex items-center gap-3'>
+          <Link to='/estadisticas'>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant='ghost' size='icon'>
+                  <ChartColumn className='h-4 w-4' />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Estadísticas</TooltipContent>
+            </Tooltip>
+          </Link>
           <Link to='/privacy'>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -128,14 +259,40 @@ export function Header({ session }: HeaderProps) {
         </div>
       )}
 
+      {/* Data export: machine-readable JSON or a readable summary */}
+      <AlertDialog open={exportOpen} onOpenChange={setExportOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Descargar mis datos</AlertDialogTitle>
+            <AlertDialogDescription>
+              Una copia de todo lo que guardamos sobre ti: cuenta, perfil, ubicación,
+              ajustes y consentimientos. Se genera en tu navegador.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={exporting}>Cancelar</AlertDialogCancel>
+            <Button
+              variant='outline'
+              onClick={() => handleExport("html")}
+              disabled={exporting}>
+              Resumen (HTML)
+            </Button>
+            <Button onClick={() => handleExport("json")} disabled={exporting}>
+              {exporting ? "Preparando..." : "Datos (JSON)"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete account confirmation */}
       <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar tu cuenta?</AlertDialogTitle>
             <AlertDialogDescription>
-              Se borrarán todos tus datos (perfil, provincia seleccionada) de forma
-              permanente. Esta acción no se puede deshacer.
+              Se borrarán tu cuenta, su vínculo con X y todos tus datos (perfil,
+              ubicación, ajustes) de forma permanente. Esta acción no se puede
+              deshacer.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,91 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import {
+  CHOROPLETH_COLORS,
+  type ClassificationMethod,
+  type DensityMetric,
+} from "@/lib/choropleth";
+
+const METRIC_OPTIONS: { value: DensityMetric; label: string }[] = [
+  { value: "absolute", label: "Miembros" },
+  { value: "per-100k", label: "Por 100k hab." },
+];
+
+const METHOD_OPTIONS: { value: ClassificationMethod; label: string }[] = [
+  { value: "quantile", label: "Cuantiles" },
+  { value: "equal-interval", label: "Intervalos" },
+  { value: "jenks", label: "Jenks" },
+];
+
+interface MapLegendProps {
+  /** Class upper bounds as returned by `classBreaks` */
+  breaks: number[];
+  /** Smallest classified value, lower bound of the first class */
+  min: number;
+  metric: DensityMetric;
+  onMetricChange: (metric: DensityMetric) => void;
+  method: ClassificationMethod;
+  onMethodChange: (method: ClassificationMethod) => void;
+  /** Colour used for areas without members */
+  emptyColor: string;
+}
+
+export function formatDensityValue(value: number, metric: DensityMetric): string {
+  return value.toLocaleString("es-ES", {
+    maximumFractionDigits: metric === "absolute" ? 0 : 2,
+  });
+}
+
+/** Choropleth legend with the metric and classification pickers */
+export function MapLegend({
+  breaks,
+  min,
+  metric,
+  onMetricChange,
+  method,
+  onMethodChange,
+  emptyColor,
+}: MapLegendProps) {
+  return (
+    <Card className='w-60 py-3 gap-3 shadow-xl'>
+      <CardContent className='px-3 space-y-3'>
+        <SegmentedControl
+          value={metric}
+          options={METRIC_OPTIONS}
+          onChange={onMetricChange}
+        />
+        <ul className='space-y-1 text-xs'>
+          {breaks.map((upper, i) => {
+            const lower = i === 0 ? min : breaks[i - 1];
+            return (
+              <li key={upper} className='flex items-center gap-2'>
+                <span
+                  className='h-3 w-5 rounded-sm'
+                  style={{ backgroundColor: CHOROPLETH_COLORS[i] }}
+                />
+                <span className='text-foreground'>
+                  {i === 0 || lower === upper
+                    ? formatDensityValue(lower, metric)
+                    : `> ${formatDensityValue(lower, metric)}`}
+                  {lower !== upper && ` – ${formatDensityValue(upper, metric)}`}
+                </span>
+              </li>
+            );
+          })}
+          <li className='flex items-center gap-2'>
+            <span
+              className='h-3 w-5 rounded-sm'
+              style={{ backgroundColor: emptyColor }}
+            />
+            <span className='text-muted-foreground'>Sin miembros</span>
+          </li>
+        </ul>
+        <SegmentedControl
+          value={method}
+          options={METHOD_OPTIONS}
+          onChange={onMethodChange}
+        />
+      </CardContent>
+    </Card>
+  );
+}
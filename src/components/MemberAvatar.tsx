@@ -0,0 +1,41 @@
+import type { ComponentProps } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { avatarInitial, avatarSrc, hasAvatarFailed, markAvatarFailed } from "@/lib/avatars";
+
+interface MemberAvatarProps extends Omit<ComponentProps<typeof Avatar>, "size"> {
+  profile: { full_name: string | null; avatar_url: string | null };
+  /** Displayed size in CSS pixels, to pick the image resolution */
+  size: number;
+  fallbackClassName?: string;
+}
+
+/**
+ * A member's picture, sized through the avatar source, with their initial
+ * while it loads or when it fails. Failures are remembered for the session
+ * so map markers skip straight to the initial too.
+ */
+export function MemberAvatar({
+  profile,
+  size,
+  fallbackClassName,
+  ...props
+}: MemberAvatarProps) {
+  const src = avatarSrc(profile.avatar_url, size);
+
+  return (
+    <Avatar {...props}>
+      {src && !hasAvatarFailed(src) && (
+        <AvatarImage
+          src={src}
+          alt={profile.full_name ?? ""}
+          onLoadingStatusChange={(status) => {
+            if (status === "error") markAvatarFailed(src);
+          }}
+        />
+      )}
+      <AvatarFallback className={fallbackClassName}>
+        {avatarInitial(profile.full_name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { searchProfiles, type ProfileWithProvince } from "@/lib/db";
+import { cn } from "@/lib/utils";
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface MemberSearchProps {
+  onSelect: (profile: ProfileWithProvince) => void;
+  className?: string;
+}
+
+/** Search box with a results dropdown, queries `profiles` as the user types */
+export function MemberSearch({ onSelect, className }: MemberSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ProfileWithProvince[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Ignore responses that arrive after a newer query was sent
+  const latestQueryRef = useRef("");
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    latestQueryRef.current = trimmed;
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = window.setTimeout(async () => {
+      const result = await searchProfiles(trimmed);
+      if (latestQueryRef.current !== trimmed) return;
+      setResults(result.ok ? result.data : []);
+      setFailed(!result.ok);
+      setActiveIndex(0);
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  const select = (profile: ProfileWithProvince) => {
+    onSelect(profile);
+    setQuery("");
+    setResults([]);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setOpen(false);
+      return;
+    }
+    if (results.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(results[activeIndex]);
+    }
+  };
+
+  const showDropdown = open && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground' />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder='Buscar miembros'
+        aria-label='Buscar miembros'
+        className='pl-9 h-8'
+      />
+
+      {showDropdown && (
+        <ul className='absolute left-0 right-0 top-full mt-2 z-[1002] max-h-80 overflow-y-auto rounded-lg border border-border bg-card shadow-xl py-1'>
+          {results.length === 0 ? (
+            <li className='px-3 py-2 text-sm text-muted-foreground'>
+              {searching
+                ? "Buscando..."
+                : failed
+                  ? "No se pudo buscar, inténtalo de nuevo"
+                  : "Sin resultados"}
+            </li>
+          ) : (
+            results.map((profile, i) => (
+              <li key={profile.id}>
+                <button
+                  // Keep focus in the input so onBlur doesn't close the list first
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(profile)}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  className={cn(
+                    "flex items-center gap-2 w-full px-3 py-2 text-left transition-colors",
+                    i === activeIndex && "bg-accent",
+                  )}>
+                  <MemberAvatar
+                    profile={profile}
+                    size={28}
+                    className='h-7 w-7'
+                    fallbackClassName='text-[10px]'
+                  />
+                  <div className='min-w-0 flex-1'>
+                    <p className='text-sm text-foreground truncate'>
+                      {profile.full_name ?? "Sin nombre"}
+                    </p>
+                    {profile.username && (
+                      <p className='text-xs text-muted-foreground truncate'>
+                        @{profile.username}
+                      </p>
+                    )}
+                  </div>
+                  <span className='text-xs text-muted-foreground shrink-0'>
+                    {profile.provincias?.nombre ?? "Sin provincia"}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { MapPin, Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { municipiosQuery } from "@/lib/queries";
+import { searchMunicipalities, type Municipality } from "@/lib/municipalities";
+import { cn } from "@/lib/utils";
+
+const MAX_RESULTS = 20;
+
+interface MunicipalityPickerProps {
+  /** Only offer municipalities of this province */
+  provinceCode?: string | null;
+  value: Municipality | null;
+  onChange: (municipality: Municipality | null) => void;
+  className?: string;
+}
+
+/** Search box over the bundled municipality list, with a clear button once picked */
+export function MunicipalityPicker({
+  provinceCode,
+  value,
+  onChange,
+  className,
+}: MunicipalityPickerProps) {
+  const municipios = useQuery(municipiosQuery());
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(
+    () =>
+      searchMunicipalities(municipios.data ?? [], query, {
+        provinceCode,
+        limit: MAX_RESULTS,
+      }),
+    [municipios.data, query, provinceCode],
+  );
+
+  const select = (municipality: Municipality) => {
+    onChange(municipality);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape" && open) {
+      // Close the list without closing the surrounding dialog
+      e.stopPropagation();
+      setOpen(false);
+      return;
+    }
+    if (results.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(results[activeIndex]);
+    }
+  };
+
+  if (value) {
+    return (
+      <div
+        className={cn(
+          "flex items-center gap-2 rounded-md border border-border px-3 h-8 text-sm",
+          className,
+        )}>
+        <MapPin className='h-4 w-4 text-muted-foreground shrink-0' />
+        <span className='flex-1 truncate text-foreground'>{value.nombre}</span>
+        <Button
+          variant='ghost'
+          size='icon-xs'
+          aria-label='Quitar municipio'
+          onClick={() => onChange(null)}>
+          <X />
+        </Button>
+      </div>
+    );
+  }
+
+  const showDropdown = open && query.trim().length > 0;
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground' />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder='Buscar municipio'
+        aria-label='Buscar municipio'
+        className='pl-9 h-8'
+      />
+
+      {showDropdown && (
+        <ul className='absolute left-0 right-0 top-full mt-2 z-[1002] max-h-60 overflow-y-auto rounded-lg border border-border bg-card shadow-xl py-1'>
+          {results.length === 0 ? (
+            <li className='px-3 py-2 text-sm text-muted-foreground'>
+              {municipios.isPending
+                ? "Cargando municipios..."
+                : municipios.isError
+                  ? "No se pudo cargar la lista de municipios"
+                  : "Sin resultados"}
+            </li>
+          ) : (
+            results.map((municipality, i) => (
+              <li key={municipality.codigo}>
+                <button
+                  // Keep focus in the input so onBlur doesn't close the list first
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(municipality)}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  className={cn(
+                    "flex items-center gap-2 w-full px-3 py-1.5 text-left text-sm text-foreground transition-colors",
+                    i === activeIndex && "bg-accent",
+                  )}>
+                  {municipality.nombre}
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
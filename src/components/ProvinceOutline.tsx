@@ -0,0 +1,95 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { getProvinceCode, loadProvinceBoundaries } from "@/lib/provinces";
+import { cn } from "@/lib/utils";
+
+interface ProvinceOutlineProps {
+  /** INE code of the province to draw */
+  codigo: string;
+  className?: string;
+}
+
+function featureRings(feature: Feature<Geometry>): Position[][] {
+  if (feature.geometry.type === "Polygon") return feature.geometry.coordinates;
+  if (feature.geometry.type === "MultiPolygon") {
+    return feature.geometry.coordinates.flat();
+  }
+  return [];
+}
+
+/** Static SVG silhouette of a province, no map tiles involved */
+export function ProvinceOutline({ codigo, className }: ProvinceOutlineProps) {
+  const [geoData, setGeoData] = useState<FeatureCollection | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProvinceBoundaries()
+      .then((data) => {
+        if (!cancelled) setGeoData(data);
+      })
+      .catch((err) => console.error("Error cargando GeoJSON:", err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Rings projected to an equirectangular plane corrected for latitude */
+  const outline = useMemo(() => {
+    if (!geoData) return null;
+    const rings = geoData.features
+      .filter((feature) => getProvinceCode(feature) === codigo)
+      .flatMap(featureRings);
+    const points = rings.flat();
+    if (points.length === 0) return null;
+
+    const lats = points.map((p) => p[1]);
+    const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+    const scaleX = Math.cos((midLat * Math.PI) / 180);
+    const project = (p: Position): [number, number] => [p[0] * scaleX, -p[1]];
+    const projected = points.map(project);
+    const xs = projected.map((p) => p[0]);
+    const ys = projected.map((p) => p[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+
+    const d = rings
+      .map(
+        (ring) =>
+          ring
+            .map((p, i) => {
+              const [x, y] = project(p);
+              return `${i === 0 ? "M" : "L"}${(x - minX).toFixed(4)},${(y - minY).toFixed(4)}`;
+            })
+            .join("") + "Z",
+      )
+      .join("");
+
+    return {
+      d,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY,
+    };
+  }, [geoData, codigo]);
+
+  if (!outline) {
+    return <div className={cn("aspect-square rounded-lg bg-muted/40", className)} />;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${outline.width} ${outline.height}`}
+      className={className}
+      role='img'
+      aria-hidden='true'>
+      <path
+        d={outline.d}
+        fill='#1d9bf0'
+        fillOpacity={0.35}
+        fillRule='evenodd'
+        stroke='#8ecdf7'
+        strokeWidth={Math.max(outline.width, outline.height) / 200}
+        strokeLinejoin='round'
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SegmentedControlProps<T extends string> {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  className?: string;
+}
+
+/** Row of mutually exclusive buttons, used for the map mode toggles */
+export function SegmentedControl<T extends string>({
+  value,
+  options,
+  onChange,
+  className,
+}: SegmentedControlProps<T>) {
+  return (
+    <div
+      role='radiogroup'
+      className={cn(
+        "inline-flex rounded-lg border border-border bg-card p-0.5 shadow-lg",
+        className,
+      )}>
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          role='radio'
+          aria-checked={option.value === value}
+          variant={option.value === value ? "secondary" : "ghost"}
+          size='xs'
+          onClick={() => onChange(option.value)}>
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,21 +1,107 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from "react";
-import { MapContainer, TileLayer, GeoJSON, Marker, Popup } from "react-leaflet";
+import {
+  MapContainer,
+  TileLayer,
+  GeoJSON,
+  Marker,
+  Popup,
+  Polyline,
+} from "react-leaflet";
+import { Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
 import L from "leaflet";
 import type { Layer, LeafletMouseEvent } from "leaflet";
-import type { Feature, FeatureCollection, Geometry } from "geojson";
-import { SPAIN_PROVINCES_GEOJSON_URL } from "@/lib/provinces";
-import type { ProfileWithProvince } from "@/lib/db";
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import {
+  CHOROPLETH_COLORS,
+  classBreaks,
+  classIndex,
+  type ClassificationMethod,
+  type DensityMetric,
+} from "@/lib/choropleth";
+import {
+  buildCommunityIndex,
+  dissolveCommunities,
+  getCommunityName,
+} from "@/lib/communities";
+import {
+  getFeatureLabel,
+  getIslandName,
+  getProvinceCode,
+  loadProvinceBoundaries,
+} from "@/lib/provinces";
+import { populationOf } from "@/lib/population";
+import {
+  featureLabelPoint,
+  labelPoint,
+  largestPolygon,
+  polygonArea,
+  toLatLng,
+} from "@/lib/geometry";
+import {
+  clusterPoints,
+  memberPosition,
+  spiderfyPositions,
+  type Cluster,
+  type ClusterPoint,
+  type LatLngTuple,
+} from "@/lib/clustering";
+import { MUNICIPALITY_MIN_ZOOM, parseMunicipalityCell } from "@/lib/municipalities";
+import { communityTimelineQuery } from "@/lib/queries";
+import type { AnonymousCount, Isla, ProfileWithProvince, Provincia } from "@/lib/db";
+import { isCounted, showsMarker } from "@/lib/visibility";
+import {
+  formatTimelineDate,
+  parseTimelineDate,
+  timelineSnapshot,
+  timelineStart,
+} from "@/lib/timeline";
+import {
+  avatarInitial,
+  avatarSrc,
+  hasAvatarFailed,
+  markAvatarFailed,
+} from "@/lib/avatars";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Button } from "@/components/ui/button";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { MapLegend, formatDensityValue } from "@/components/MapLegend";
+import { TimelineControl, type TimelineSpeed } from "@/components/TimelineControl";
+import { DataErrorBanner } from "@/components/DataErrorBanner";
+import { DataError } from "@/lib/errors";
+import { cn, escapeHtml } from "@/lib/utils";
+import { ArrowLeft, History } from "lucide-react";
 import "leaflet/dist/leaflet.css";
 
+/** Ask the map to fly to a member's marker and open its popup */
+export type MapFocusRequest = {
+  profileId: string;
+};
+
 interface SpainMapProps {
+  /** INE code of the highlighted province */
   selectedProvince: string | null;
-  onProvinceSelect: (provinceName: string) => void;
+  /** Island within the selected province; only that island is highlighted */
+  selectedIsland?: string | null;
+  /** The island is set when the click was on a split archipelago feature */
+  onProvinceSelect: (provinceCode: string, island: string | null) => void;
   profiles: ProfileWithProvince[];
+  /** Province rows, used to check every map feature has a match */
+  provincias: Provincia[];
+  /** Island rows, to name the islands of anonymous members */
+  islas?: Isla[];
+  /** Members without a marker who still add to counts and the choropleth */
+  anonymousCounts?: AnonymousCount[];
+  /** Each new request object triggers one flight to that profile's marker */
+  focusRequest?: MapFocusRequest | null;
   dialogOpen?: boolean;
+  /** Day the time-lapse shows, `YYYY-MM-DD`; null shows the map as it is now */
+  timelineDate?: string | null;
+  /** Open, move or close (null) the time-lapse; without it there's none */
+  onTimelineDateChange?: (date: string | null) => void;
 }
 
 // X / Twitter dark palette
@@ -49,302 +135,825 @@ const OCCUPIED_STYLE = {
   color: "#00ba7c",
 };
 
-type IslandAnchor = {
-  name: string;
-  lat: number;
-  lng: number;
-};
-
-type HoveredFeature = {
-  label: string;
-  province: string;
+/** Base for choropleth fills; fillColor comes from the class */
+const DENSITY_STYLE = {
+  weight: 1,
+  opacity: 1,
+  color: "#536471",
+  fillOpacity: 0.8,
 };
 
-const ISLAND_SPLIT_ANCHORS: Record<string, IslandAnchor[]> = {
-  "Illes Balears": [
-    { name: "Mallorca", lat: 39.6, lng: 2.9 },
-    { name: "Menorca", lat: 39.95, lng: 4.1 },
-    { name: "Ibiza", lat: 38.98, lng: 1.43 },
-    { name: "Formentera", lat: 38.7, lng: 1.45 },
-  ],
-  "Las Palmas": [
-    { name: "Lanzarote", lat: 29.03, lng: -13.63 },
-    { name: "Fuerteventura", lat: 28.36, lng: -14.05 },
-    { name: "Gran Canaria", lat: 27.95, lng: -15.6 },
-  ],
-  "Santa Cruz De Tenerife": [
-    { name: "Tenerife", lat: 28.29, lng: -16.62 },
-    { name: "La Palma", lat: 28.69, lng: -17.86 },
-    { name: "La Gomera", lat: 28.11, lng: -17.23 },
-    { name: "El Hierro", lat: 27.73, lng: -18.03 },
-  ],
+/** Provinces dimmed while drilling into a community */
+const OUTSIDE_DRILLDOWN_STYLE = {
+  fillOpacity: 0.2,
+  opacity: 0.3,
 };
 
-/** Compute the centroid of a GeoJSON feature's bounding box */
-function featureCentroid(feature: Feature<Geometry>): [number, number] {
-  const layer = L.geoJSON(feature);
-  const bounds = layer.getBounds();
-  const center = bounds.getCenter();
-  return [center.lat, center.lng];
-}
-
-/** Approximate relative area using bounding box span */
-function featureAreaScore(feature: Feature<Geometry>): number {
-  const layer = L.geoJSON(feature);
-  const bounds = layer.getBounds();
-  return (
-    Math.abs(bounds.getNorth() - bounds.getSouth()) *
-    Math.abs(bounds.getEast() - bounds.getWest())
-  );
-}
+/** Grace period to move the pointer from a province onto its hover card */
+const HOVER_HIDE_DELAY_MS = 300;
 
-function getRawProvinceName(feature: Feature<Geometry>): string {
-  return (
-    getStringProperty(feature, "name") ??
-    getStringProperty(feature, "NAME") ??
-    getStringProperty(feature, "provincia") ??
-    "Desconocida"
-  );
-}
+/** Legs from a spiderfied cluster's centre to its members */
+const SPIDER_LEG_STYLE = {
+  color: "#1d9bf0",
+  weight: 1.5,
+  opacity: 0.6,
+};
 
-function getProvinceName(feature: Feature<Geometry>): string {
-  return getStringProperty(feature, "mapProvinceName") ?? getRawProvinceName(feature);
-}
+const INITIAL_CENTER: [number, number] = [40.0, -3.7];
+const INITIAL_ZOOM = 5;
+/** Highest zoom where avatars are clustered; every member is shown above it */
+const CLUSTER_MAX_ZOOM = 9;
+const CLUSTER_RADIUS_PX = 48;
+/** Markers within this share of the view beyond its edges are mounted ahead of panning */
+const VIEW_PADDING = 0.25;
+const SPIDER_SPACING_PX = 34;
+/** Past the clustering zoom, so the focused member always has its own marker */
+const FOCUS_ZOOM = CLUSTER_MAX_ZOOM + 1;
+/** Duration of an avatar's flight to its new province */
+const MOVE_ANIMATION_MS = 1200;
+/** How often the time-lapse advances while playing */
+const TIMELINE_TICK_MS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-function getFeatureLabel(feature: Feature<Geometry>): string {
-  return getStringProperty(feature, "mapDisplayName") ?? getRawProvinceName(feature);
-}
+type MapAggregation = "provinces" | "communities";
 
-function getStringProperty(feature: Feature<Geometry>, key: string): string | null {
-  const value = feature.properties?.[key];
-  return typeof value === "string" ? value : null;
-}
+const AGGREGATION_OPTIONS: { value: MapAggregation; label: string }[] = [
+  { value: "provinces", label: "Provincias" },
+  { value: "communities", label: "Comunidades" },
+];
 
-function nearestAnchor(
-  lat: number,
-  lng: number,
-  anchors: IslandAnchor[],
-): IslandAnchor {
-  let best = anchors[0];
-  let bestDistance = Number.POSITIVE_INFINITY;
-  for (const anchor of anchors) {
-    const latDiff = anchor.lat - lat;
-    const lngDiff = anchor.lng - lng;
-    const distance = latDiff * latDiff + lngDiff * lngDiff;
-    if (distance < bestDistance) {
-      best = anchor;
-      bestDistance = distance;
-    }
-  }
-  return best;
-}
+type MapDisplay = "avatars" | "density";
 
-function polygonCentroid(polygon: number[][][]): [number, number] {
-  const ring = polygon[0] ?? [];
-  if (ring.length === 0) return [0, 0];
+const DISPLAY_OPTIONS: { value: MapDisplay; label: string }[] = [
+  { value: "avatars", label: "Avatares" },
+  { value: "density", label: "Densidad" },
+];
 
-  let lngSum = 0;
-  let latSum = 0;
-  for (const coord of ring) {
-    lngSum += coord[0] ?? 0;
-    latSum += coord[1] ?? 0;
-  }
-  return [latSum / ring.length, lngSum / ring.length];
-}
+type HoveredFeature = {
+  label: string;
+  /** INE code or community name, null when the feature couldn't be resolved */
+  key: string | null;
+  /** Island of a split archipelago feature */
+  island: string | null;
+};
 
-function splitIslandFeature(feature: Feature<Geometry>): Feature<Geometry>[] {
-  const provinceName = getRawProvinceName(feature);
-  const anchors = ISLAND_SPLIT_ANCHORS[provinceName];
-  if (!anchors || feature.geometry.type !== "MultiPolygon") {
-    return [feature];
-  }
+/** Shape members are placed in, with the point their cluster falls back to */
+type PlacementShape = { rings: Position[][]; anchor: LatLngTuple; area: number };
 
-  const groups = new Map<string, number[][][][]>();
-  anchors.forEach((anchor) => groups.set(anchor.name, []));
+/** Grid cell a member with a municipality is drawn at when zoomed in */
+/** Sub-group label for members of an archipelago without an island yet */
+const NO_ISLAND_LABEL = "Sin isla";
 
-  for (const polygon of feature.geometry.coordinates as number[][][][]) {
-    const [lat, lng] = polygonCentroid(polygon);
-    const anchor = nearestAnchor(lat, lng, anchors);
-    groups.get(anchor.name)?.push(polygon);
-  }
+/** Icons are rebuilt on every render; reusing them keeps Leaflet from swapping the DOM */
+const iconCache = new Map<string, L.DivIcon>();
+const ICON_CACHE_LIMIT = 2000;
 
-  const splitFeatures: Feature<Geometry>[] = [];
-  for (const anchor of anchors) {
-    const coordinates = groups.get(anchor.name);
-    if (!coordinates || coordinates.length === 0) continue;
-
-    splitFeatures.push({
-      ...feature,
-      properties: {
-        ...(feature.properties ?? {}),
-        mapProvinceName: provinceName,
-        mapDisplayName: anchor.name,
-      },
-      geometry: {
-        type: "MultiPolygon",
-        coordinates,
-      },
-    });
-  }
-
-  return splitFeatures.length > 0 ? splitFeatures : [feature];
+function cachedDivIcon(html: string, width: number, height: number): L.DivIcon {
+  const key = `${width}x${height}:${html}`;
+  const cached = iconCache.get(key);
+  if (cached) return cached;
+  if (iconCache.size >= ICON_CACHE_LIMIT) iconCache.clear();
+  const icon = L.divIcon({
+    html,
+    className: "avatar-marker-container",
+    iconSize: [width, height],
+    iconAnchor: [width / 2, height / 2],
+  });
+  iconCache.set(key, icon);
+  return icon;
 }
 
-function splitArchipelagos(data: FeatureCollection): FeatureCollection {
-  return {
-    ...data,
-    features: data.features.flatMap(splitIslandFeature),
-  };
+/**
+ * One circular avatar as HTML, or the initial when there's no picture or it
+ * already failed. `data-initial` lets the error handler swap in the fallback.
+ */
+function avatarHtml(
+  profile: Pick<ProfileWithProvince, "avatar_url" | "full_name">,
+  size: number,
+  style = "",
+): string {
+  const safeName = escapeHtml(profile.full_name || "?");
+  const initial = escapeHtml(avatarInitial(profile.full_name));
+  const src = avatarSrc(profile.avatar_url, size);
+  const sizeStyle = `width:${size}px;height:${size}px;${style}`;
+  return src && !hasAvatarFailed(src)
+    ? `<img src="${escapeHtml(src)}" alt="${safeName}" data-initial="${initial}" decoding="async" class="avatar-marker" style="${sizeStyle}" />`
+    : `<div class="avatar-marker avatar-fallback" style="${sizeStyle}font-size:${size * 0.4}px;">${initial}</div>`;
 }
 
-/** Escape HTML special chars to prevent XSS */
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+/** Swap a marker image that failed to load for its initial, and remember it */
+function replaceBrokenAvatar(img: HTMLImageElement) {
+  markAvatarFailed(img.getAttribute("src") ?? "");
+  const fallback = document.createElement("div");
+  fallback.className = "avatar-marker avatar-fallback";
+  fallback.style.cssText = img.style.cssText;
+  fallback.style.fontSize = `${img.offsetWidth * 0.4}px`;
+  fallback.textContent = img.dataset.initial ?? "?";
+  img.replaceWith(fallback);
 }
 
 /** Create a Leaflet DivIcon with a circular avatar image */
 function createAvatarIcon(
-  avatarUrl: string | null,
-  name: string,
+  profile: Pick<ProfileWithProvince, "avatar_url" | "full_name">,
   size = 28,
 ): L.DivIcon {
-  const safeName = escapeHtml(name || "?");
-  const initial = safeName.charAt(0).toUpperCase();
-  const html = avatarUrl
-    ? `<img src="${escapeHtml(avatarUrl)}" alt="${safeName}" class="avatar-marker" style="width:${size}px;height:${size}px;" />`
-    : `<div class="avatar-marker avatar-fallback" style="width:${size}px;height:${size}px;font-size:${size * 0.4}px;">${initial}</div>`;
+  return cachedDivIcon(avatarHtml(profile, size), size, size);
+}
+
+/** Create a Leaflet DivIcon with up to three stacked avatars and a count */
+function createClusterIcon(profiles: ProfileWithProvince[]): L.DivIcon {
+  const size = 28;
+  const stack = profiles
+    .slice(0, 3)
+    .map((profile, i) => avatarHtml(profile, size, `left:${i * 10}px;z-index:${3 - i};`))
+    .join("");
+  const width = size + (Math.min(profiles.length, 3) - 1) * 10;
 
+  return cachedDivIcon(
+    `<div class="cluster-marker" style="width:${width}px;height:${size}px;">${stack}<span class="cluster-count">${profiles.length}</span></div>`,
+    width,
+    size,
+  );
+}
+
+/** Create a Leaflet DivIcon with a member count bubble */
+function createCountIcon(count: number, size = 36): L.DivIcon {
   return L.divIcon({
-    html,
+    html: `<div class="count-marker" style="width:${size}px;height:${size}px;">${count}</div>`,
     className: "avatar-marker-container",
     iconSize: [size, size],
     iconAnchor: [size / 2, size / 2],
   });
 }
 
+type MovingMember = {
+  profile: ProfileWithProvince;
+  from: LatLngTuple;
+  to: LatLngTuple;
+};
+
+/** Avatar gliding from its old province to the new one */
+function MovingAvatar({ profile, from, to }: MovingMember) {
+  const markerRef = useRef<L.Marker | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min((now - start) / MOVE_ANIMATION_MS, 1);
+      const eased = t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+      markerRef.current?.setLatLng([
+        from[0] + (to[0] - from[0]) * eased,
+        from[1] + (to[1] - from[1]) * eased,
+      ]);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [from, to]);
+
+  return (
+    <Marker
+      ref={markerRef}
+      position={from}
+      icon={createAvatarIcon(profile)}
+      interactive={false}
+      zIndexOffset={1000}
+    />
+  );
+}
+
 export function SpainMap({
   selectedProvince,
+  selectedIsland = null,
   onProvinceSelect,
-  profiles,
+  profiles: liveProfiles,
+  provincias,
+  islas = [],
+  anonymousCounts: liveAnonymousCounts = [],
+  focusRequest = null,
   dialogOpen = false,
+  timelineDate = null,
+  onTimelineDateChange,
 }: SpainMapProps) {
+  const [map, setMap] = useState<L.Map | null>(null);
   const [geoData, setGeoData] = useState<FeatureCollection | null>(null);
   const [hovered, setHovered] = useState<HoveredFeature | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  /** Bumped by the retry action to load the boundaries again */
+  const [boundariesAttempt, setBoundariesAttempt] = useState(0);
+  const [aggregation, setAggregation] = useState<MapAggregation>("provinces");
+  /** Community the user drilled into from the community view */
+  const [drilledCommunity, setDrilledCommunity] = useState<string | null>(null);
+  const showCommunities = aggregation === "communities";
+  const [display, setDisplay] = useState<MapDisplay>("avatars");
+  const [densityMetric, setDensityMetric] = useState<DensityMetric>("absolute");
+  const [classification, setClassification] =
+    useState<ClassificationMethod>("quantile");
+  const showDensity = display === "density";
+  const [zoom, setZoom] = useState(INITIAL_ZOOM);
+  /** Only markers around the view are mounted, so off-screen avatars don't load */
+  const [viewBounds, setViewBounds] = useState<L.LatLngBounds | null>(null);
+  /** Cluster whose members are fanned out around it */
+  const [expandedCluster, setExpandedCluster] = useState<string | null>(null);
+  /** Members changing province, drawn in flight instead of at their cluster */
+  const [moving, setMoving] = useState<MovingMember[]>([]);
+
+  // Time-lapse: the URL holds the day, playback moves a finer cursor and
+  // writes the day back when it stops
+  const timelineOpen = timelineDate !== null && !!onTimelineDateChange;
+  const timeline = useQuery({ ...communityTimelineQuery(), enabled: timelineOpen });
+  const timelineEnd = useMemo(() => Date.now(), []);
+  const timelineBegin = useMemo(
+    () => timelineStart(timeline.data ?? [], liveProfiles),
+    [timeline.data, liveProfiles],
+  );
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<TimelineSpeed>("30");
+
+  // A new date from the URL (deep link, back button) moves the cursor
+  useEffect(() => {
+    setCursor(timelineDate ? parseTimelineDate(timelineDate) : null);
+    if (!timelineDate) setPlaying(false);
+  }, [timelineDate]);
+
+  const commitCursor = useCallback(
+    (time: number) => onTimelineDateChange?.(formatTimelineDate(time)),
+    [onTimelineDateChange],
+  );
+
+  // Advance once the history is in, until today
+  useEffect(() => {
+    if (!playing || !timeline.data) return;
+    const step = (Number(speed) * DAY_MS * TIMELINE_TICK_MS) / 1000;
+    const timer = window.setInterval(() => {
+      setCursor((current) => Math.min((current ?? timelineBegin) + step, timelineEnd));
+    }, TIMELINE_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [playing, speed, timeline.data, timelineBegin, timelineEnd]);
+
+  useEffect(() => {
+    if (playing && cursor !== null && cursor >= timelineEnd) setPlaying(false);
+  }, [playing, cursor, timelineEnd]);
+
+  // Keep the URL on the day shown once playback stops
+  const wasPlayingRef = useRef(false);
+  useEffect(() => {
+    if (wasPlayingRef.current && !playing && cursor !== null) commitCursor(cursor);
+    wasPlayingRef.current = playing;
+  }, [playing, cursor, commitCursor]);
+
+  const timelineAt =
+    timelineOpen && cursor !== null
+      ? Math.min(Math.max(cursor, timelineBegin), timelineEnd)
+      : null;
+
+  /** The map at the time-lapse's moment, or as it is now */
+  const { profiles, anonymousCounts } = useMemo(
+    () =>
+      timelineAt !== null && timeline.data
+        ? timelineSnapshot(timeline.data, liveProfiles, provincias, timelineAt)
+        : { profiles: liveProfiles, anonymousCounts: liveAnonymousCounts },
+    [timelineAt, timeline.data, liveProfiles, liveAnonymousCounts, provincias],
+  );
+
+  const openTimeline = useCallback(() => {
+    if (!onTimelineDateChange) return;
+    setPlaying(true);
+    onTimelineDateChange(formatTimelineDate(timelineStart([], liveProfiles)));
+  }, [onTimelineDateChange, liveProfiles]);
 
   // Track the previously hovered layer to reset it if mouseout didn't fire
-  const prevHoveredRef = useRef<{ layer: Layer; province: string } | null>(null);
+  const prevHoveredRef = useRef<{
+    layer: Layer;
+    feature: Feature<Geometry>;
+  } | null>(null);
+
+  // Mounted avatar markers by profile id, for opening popups programmatically
+  const markerRefs = useRef(new Map<string, L.Marker>());
+  const handledFocusRef = useRef<MapFocusRequest | null>(null);
+  // Popup to open as soon as its marker is added to the map
+  const pendingPopupRef = useRef<string | null>(null);
 
-  /** Map province name → profiles in that province */
+  // Hide the hover card with a delay so it can be reached and clicked
+  const hoverHideTimerRef = useRef<number | null>(null);
+  const cancelHoverHide = useCallback(() => {
+    if (hoverHideTimerRef.current !== null) {
+      window.clearTimeout(hoverHideTimerRef.current);
+      hoverHideTimerRef.current = null;
+    }
+  }, []);
+  const scheduleHoverHide = useCallback(() => {
+    cancelHoverHide();
+    hoverHideTimerRef.current = window.setTimeout(
+      () => setHovered(null),
+      HOVER_HIDE_DELAY_MS,
+    );
+  }, [cancelHoverHide]);
+  useEffect(() => cancelHoverHide, [cancelHoverHide]);
+
+  /** Province INE code → autonomous community */
+  const communityIndex = useMemo(
+    () => buildCommunityIndex(provincias),
+    [provincias],
+  );
+
+  /** Provinces dissolved into one feature per community */
+  const communityData = useMemo(
+    () => (geoData ? dissolveCommunities(geoData, communityIndex) : null),
+    [geoData, communityIndex],
+  );
+
+  /** Map province INE code → profiles with a marker in that province */
   const profilesByProvince = useMemo(() => {
     const map = new Map<string, ProfileWithProvince[]>();
     for (const p of profiles) {
-      const provName = p.provincias?.nombre;
-      if (!provName) continue;
-      const arr = map.get(provName) ?? [];
+      const provCode = p.provincias?.codigo_ine;
+      if (!provCode || !showsMarker(p.visibility)) continue;
+      const arr = map.get(provCode) ?? [];
       arr.push(p);
-      map.set(provName, arr);
+      map.set(provCode, arr);
     }
     return map;
   }, [profiles]);
 
-  /** Set of province names that have at least 1 user */
-  const occupiedProvinces = useMemo(
-    () => new Set(profilesByProvince.keys()),
-    [profilesByProvince],
+  /** Map community name → profiles across its provinces */
+  const profilesByCommunity = useMemo(() => {
+    const map = new Map<string, ProfileWithProvince[]>();
+    for (const [provCode, provProfiles] of profilesByProvince) {
+      const community = communityIndex.get(provCode);
+      if (!community) continue;
+      map.set(community, [...(map.get(community) ?? []), ...provProfiles]);
+    }
+    return map;
+  }, [profilesByProvince, communityIndex]);
+
+  /** Province INE code → anonymous members there, as [island name, count] */
+  const anonymousByProvince = useMemo(() => {
+    const codes = new Map(provincias.map((p) => [p.id, p.codigo_ine]));
+    const islandNames = new Map(islas.map((i) => [i.id, i.nombre]));
+    const map = new Map<string, [string | null, number][]>();
+    const add = (code: string, island: string | null, total: number) =>
+      map.set(code, [...(map.get(code) ?? []), [island, total]]);
+    for (const c of anonymousCounts) {
+      const code = codes.get(c.provincia_id);
+      if (code) add(code, c.isla_id ? (islandNames.get(c.isla_id) ?? null) : null, c.total);
+    }
+    // Readable profiles without a marker, i.e. the viewer's own anonymous one
+    for (const p of profiles) {
+      const code = p.provincias?.codigo_ine;
+      if (code && isCounted(p.visibility) && !showsMarker(p.visibility)) {
+        add(code, p.islas?.nombre ?? null, 1);
+      }
+    }
+    return map;
+  }, [anonymousCounts, profiles, provincias, islas]);
+
+  /** Members counted per province, with and without a marker */
+  const countsByProvince = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const [code, provProfiles] of profilesByProvince) counts.set(code, provProfiles.length);
+    for (const [code, anonymous] of anonymousByProvince) {
+      const total = anonymous.reduce((sum, [, n]) => sum + n, 0);
+      counts.set(code, (counts.get(code) ?? 0) + total);
+    }
+    return counts;
+  }, [profilesByProvince, anonymousByProvince]);
+
+  /** Members counted per community */
+  const countsByCommunity = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const [provCode, count] of countsByProvince) {
+      const community = communityIndex.get(provCode);
+      if (!community) continue;
+      counts.set(community, (counts.get(community) ?? 0) + count);
+    }
+    return counts;
+  }, [countsByProvince, communityIndex]);
+
+  // Features are keyed by INE code or by community name depending on the view
+  const profilesByKey = showCommunities ? profilesByCommunity : profilesByProvince;
+  const countsByKey = showCommunities ? countsByCommunity : countsByProvince;
+  const selectedKey = showCommunities
+    ? selectedProvince
+      ? (communityIndex.get(selectedProvince) ?? null)
+      : null
+    : selectedProvince;
+
+  /** Set of feature keys that have at least 1 user */
+  const occupiedKeys = useMemo(
+    () => new Set(countsByKey.keys()),
+    [countsByKey],
   );
 
-  /** Compute centroids from GeoJSON features for placing avatar markers */
-  const provinceCentroids = useMemo(() => {
-    if (!geoData) return new Map<string, [number, number]>();
-    const map = new Map<string, { center: [number, number]; score: number }>();
-    for (const feature of geoData.features) {
-      const provinceName = getProvinceName(feature);
-      const center = featureCentroid(feature);
-      const score = featureAreaScore(feature);
-      const current = map.get(provinceName);
-      if (!current || score > current.score) {
-        map.set(provinceName, { center, score });
+  /** Value each occupied feature is coloured by in the density view */
+  const densityValues = useMemo(() => {
+    const values = new Map<string, number>();
+    for (const [key, count] of countsByKey) {
+      if (densityMetric === "absolute") {
+        values.set(key, count);
+        continue;
+      }
+      const population = populationOf(
+        key,
+        showCommunities ? communityIndex : undefined,
+      );
+      if (population > 0) {
+        values.set(key, (count / population) * 100_000);
       }
     }
-    return new Map(
-      Array.from(map.entries()).map(([provinceName, value]) => [
-        provinceName,
-        value.center,
-      ]),
-    );
-  }, [geoData]);
+    return values;
+  }, [countsByKey, densityMetric, showCommunities, communityIndex]);
 
-  /** Avatar markers: for each occupied province, spread avatars around centroid */
-  const avatarMarkers = useMemo(() => {
-    const markers: {
-      key: string;
-      position: [number, number];
-      profile: ProfileWithProvince;
-    }[] = [];
-    for (const [provName, provProfiles] of profilesByProvince) {
-      const center = provinceCentroids.get(provName);
-      if (!center) continue;
-
-      const count = provProfiles.length;
-      provProfiles.forEach((profile, i) => {
-        let lat = center[0];
-        let lng = center[1];
-
-        if (count > 1) {
-          // Distribute in a circle around the centroid
-          const angle = (2 * Math.PI * i) / count;
-          const radius = Math.min(0.15 + count * 0.02, 0.5);
-          lat += Math.cos(angle) * radius;
-          lng += Math.sin(angle) * radius;
-        }
+  const densityBreaks = useMemo(
+    () =>
+      classBreaks(
+        Array.from(densityValues.values()),
+        CHOROPLETH_COLORS.length,
+        classification,
+      ),
+    [densityValues, classification],
+  );
+
+  /** Class of every feature, so the layer remounts when any class changes */
+  const densitySignature = useMemo(
+    () =>
+      showDensity
+        ? Array.from(densityValues, ([key, value]) =>
+            `${key}:${classIndex(value, densityBreaks)}`,
+          ).join(",")
+        : "",
+    [showDensity, densityValues, densityBreaks],
+  );
+
+  const featureKey = useCallback(
+    (feature: Feature<Geometry>) =>
+      showCommunities ? getCommunityName(feature) : getProvinceCode(feature),
+    [showCommunities],
+  );
+
+  /** Count bubbles placed on each occupied community */
+  const communityMarkers = useMemo(() => {
+    if (!communityData) return [];
+    return communityData.features.flatMap((feature) => {
+      const community = getCommunityName(feature);
+      const count = community ? (countsByCommunity.get(community) ?? 0) : 0;
+      if (!community || count === 0) return [];
+      const label = featureLabelPoint(feature);
+      return label ? [{ key: community, position: toLatLng(label), count }] : [];
+    });
+  }, [communityData, countsByCommunity]);
 
-        markers.push({
-          key: profile.id,
-          position: [lat, lng],
-          profile,
+  /**
+   * Largest polygon of each province, where its members are placed, and of
+   * each split island, for members who picked one
+   */
+  const { provinceShapes, islandShapes } = useMemo(() => {
+    const provinceShapes = new Map<string, PlacementShape>();
+    const islandShapes = new Map<string, PlacementShape>();
+    if (!geoData) return { provinceShapes, islandShapes };
+    for (const feature of geoData.features) {
+      const provinceCode = getProvinceCode(feature);
+      const rings = largestPolygon(feature);
+      if (!provinceCode || !rings) continue;
+      const area = polygonArea(rings);
+      const shape = { rings, anchor: toLatLng(labelPoint(rings)), area };
+      const current = provinceShapes.get(provinceCode);
+      if (!current || area > current.area) provinceShapes.set(provinceCode, shape);
+      const island = getIslandName(feature);
+      if (island) islandShapes.set(island, shape);
+    }
+    return { provinceShapes, islandShapes };
+  }, [geoData]);
+
+  /**
+   * One point per member, at a position seeded by the profile id. Islands
+   * get their own group so clusters never span the sea between them.
+   */
+  const memberPoints = useMemo(() => {
+    const points: ClusterPoint<ProfileWithProvince>[] = [];
+    for (const [provCode, provProfiles] of profilesByProvince) {
+      const provinceShape = provinceShapes.get(provCode);
+      if (!provinceShape) continue;
+      for (const profile of provProfiles) {
+        const island = profile.islas?.nombre ?? null;
+        const islandShape = island ? islandShapes.get(island) : undefined;
+        const shape = islandShape ?? provinceShape;
+        points.push({
+          id: profile.id,
+          group: islandShape ? `${provCode}:${island}` : provCode,
+          position: memberPosition(profile.id, shape.rings, shape.anchor),
+          data: profile,
         });
-      });
+      }
     }
-    return markers;
-  }, [profilesByProvince, provinceCentroids]);
+    return points;
+  }, [profilesByProvince, provinceShapes, islandShapes]);
+
+  /** Grid cell of every member who picked a municipality */
+  const municipalPlacements = useMemo(() => {
+    const placements = new Map<string, LatLngTuple>();
+    for (const profile of profiles) {
+      const cell = parseMunicipalityCell(profile.municipio_celda);
+      if (cell) placements.set(profile.id, cell);
+    }
+    return placements;
+  }, [profiles]);
+
+  /**
+   * Where a member is drawn at a zoom: their municipality's grid cell when
+   * zoomed in, grouped by cell so members sharing one stack together
+   */
+  const placeMember = useCallback(
+    (point: ClusterPoint<ProfileWithProvince>, atZoom: number) => {
+      const cell =
+        atZoom >= MUNICIPALITY_MIN_ZOOM ? municipalPlacements.get(point.id) : undefined;
+      return cell ? { ...point, group: `cell:${cell.join(",")}`, position: cell } : point;
+    },
+    [municipalPlacements],
+  );
+
+  // Last known place of each member, to spot province changes
+  const previousPointsRef = useRef<Map<string, ClusterPoint<ProfileWithProvince>> | null>(
+    null,
+  );
+  const moveTimersRef = useRef(new Set<number>());
+
+  // Start a flight for every member whose province changed since last time
+  useEffect(() => {
+    const previous = previousPointsRef.current;
+    previousPointsRef.current = new Map(memberPoints.map((p) => [p.id, p]));
+    if (!previous) return;
+
+    const moves = memberPoints.flatMap((point) => {
+      const before = previous.get(point.id);
+      return before && before.group !== point.group
+        ? [{ profile: point.data, from: before.position, to: point.position }]
+        : [];
+    });
+    if (moves.length === 0) return;
+
+    const movedIds = new Set(moves.map((m) => m.profile.id));
+    setMoving((current) => [
+      ...current.filter((m) => !movedIds.has(m.profile.id)),
+      ...moves,
+    ]);
+    const timer = window.setTimeout(() => {
+      moveTimersRef.current.delete(timer);
+      setMoving((current) => current.filter((m) => !moves.includes(m)));
+    }, MOVE_ANIMATION_MS);
+    moveTimersRef.current.add(timer);
+  }, [memberPoints]);
+
+  useEffect(() => {
+    const timers = moveTimersRef.current;
+    return () => timers.forEach((timer) => window.clearTimeout(timer));
+  }, []);
+
+  /**
+   * Members grouped per province at the current zoom, singletons included.
+   * Past the clustering zoom only members sharing a municipality cell stack.
+   */
+  const memberClusters = useMemo(() => {
+    const movingIds = new Set(moving.map((m) => m.profile.id));
+    const settled = memberPoints
+      .filter((point) => !movingIds.has(point.id))
+      .map((point) => placeMember(point, zoom));
+    return clusterPoints(settled, zoom, zoom > CLUSTER_MAX_ZOOM ? 0 : CLUSTER_RADIUS_PX);
+  }, [memberPoints, moving, zoom, placeMember]);
+
+  /** Fanned-out positions of the expanded cluster's members */
+  const spiderfied = useMemo(() => {
+    const cluster = memberClusters.find((c) => c.key === expandedCluster);
+    if (!cluster || cluster.points.length < 2) return null;
+    const positions = spiderfyPositions(
+      cluster.position,
+      cluster.points.length,
+      zoom,
+      SPIDER_SPACING_PX,
+    );
+    return {
+      key: cluster.key,
+      center: cluster.position,
+      members: cluster.points.map((point, i) => ({
+        point,
+        position: positions[i],
+      })),
+    };
+  }, [memberClusters, expandedCluster, zoom]);
+
+  const visibleClusters = useMemo(
+    () =>
+      viewBounds
+        ? memberClusters.filter((c) => viewBounds.contains(c.position))
+        : memberClusters,
+    [memberClusters, viewBounds],
+  );
 
   useEffect(() => {
-    fetch(SPAIN_PROVINCES_GEOJSON_URL)
-      .then((res) => {
-        if (!res.ok) throw new Error("Error cargando GeoJSON");
-        return res.json();
+    let cancelled = false;
+    setError(null);
+    loadProvinceBoundaries()
+      .then((data) => {
+        if (!cancelled) setGeoData(data);
       })
-      .then((data: FeatureCollection) => setGeoData(splitArchipelagos(data)))
-      .catch((err) => setError(err.message));
+      .catch((err) => {
+        console.error("Error cargando GeoJSON:", err.message);
+        if (!cancelled) setError(new DataError("network", err.message));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boundariesAttempt]);
+
+  /** Selected feature; within an archipelago, only the chosen island */
+  const isSelectedFeature = useCallback(
+    (feature: Feature<Geometry>, key: string | null) => {
+      if (!key || key !== selectedKey) return false;
+      if (showCommunities || !selectedIsland) return true;
+      const island = getIslandName(feature);
+      return !island || island === selectedIsland;
+    },
+    [selectedKey, selectedIsland, showCommunities],
+  );
+
+  const styleFeature = useCallback(
+    (feature: Feature<Geometry> | undefined) => {
+      const key = feature ? featureKey(feature) : null;
+      const selected = feature ? isSelectedFeature(feature, key) : false;
+      let style: L.PathOptions = DEFAULT_STYLE;
+      if (showDensity) {
+        const value = key ? densityValues.get(key) : undefined;
+        if (value !== undefined) {
+          style = {
+            ...DENSITY_STYLE,
+            fillColor: CHOROPLETH_COLORS[classIndex(value, densityBreaks)],
+          };
+        }
+        // Keep the fill readable, only outline the selected feature
+        if (selected) {
+          style = { ...style, weight: SELECTED_STYLE.weight, color: SELECTED_STYLE.color };
+        }
+      } else if (selected) style = SELECTED_STYLE;
+      else if (key && occupiedKeys.has(key)) style = OCCUPIED_STYLE;
+
+      if (drilledCommunity && key && communityIndex.get(key) !== drilledCommunity) {
+        return { ...style, ...OUTSIDE_DRILLDOWN_STYLE };
+      }
+      return style;
+    },
+    [
+      featureKey,
+      isSelectedFeature,
+      occupiedKeys,
+      drilledCommunity,
+      communityIndex,
+      showDensity,
+      densityValues,
+      densityBreaks,
+    ],
+  );
+
+  // Feature handlers outlive a render while the time-lapse restyles in place
+  const styleFeatureRef = useRef(styleFeature);
+  const geoJsonRef = useRef<L.GeoJSON | null>(null);
+  useEffect(() => {
+    styleFeatureRef.current = styleFeature;
+    if (timelineOpen) geoJsonRef.current?.setStyle(styleFeature);
+  }, [styleFeature, timelineOpen]);
+
+  const changeAggregation = useCallback((value: MapAggregation) => {
+    setAggregation(value);
+    setDrilledCommunity(null);
+    setHovered(null);
   }, []);
 
+  /** Zoom into a community and switch to its provinces */
+  const drillIntoCommunity = useCallback(
+    (community: string, feature: Feature<Geometry>) => {
+      map?.fitBounds(L.geoJSON(feature).getBounds(), { padding: [24, 24] });
+      changeAggregation("provinces");
+      setDrilledCommunity(community);
+    },
+    [map, changeAggregation],
+  );
+
+  const leaveDrilldown = useCallback(() => {
+    map?.setView(INITIAL_CENTER, INITIAL_ZOOM);
+    changeAggregation("communities");
+  }, [map, changeAggregation]);
+
+  // Clusters depend on the zoom; any fanned-out cluster is closed on change
+  useEffect(() => {
+    if (!map) return;
+    const handleZoom = () => {
+      setZoom(map.getZoom());
+      setExpandedCluster(null);
+    };
+    const handleMove = () => setViewBounds(map.getBounds().pad(VIEW_PADDING));
+    const collapse = () => setExpandedCluster(null);
+    handleMove();
+    map.on("zoomend", handleZoom);
+    map.on("moveend", handleMove);
+    map.on("click", collapse);
+    return () => {
+      map.off("zoomend", handleZoom);
+      map.off("moveend", handleMove);
+      map.off("click", collapse);
+    };
+  }, [map]);
+
+  // Expired pictures fall back to the initial; error events don't bubble
+  useEffect(() => {
+    if (!map) return;
+    const container = map.getContainer();
+    const handleError = (e: Event) => {
+      if (e.target instanceof HTMLImageElement && e.target.classList.contains("avatar-marker")) {
+        replaceBrokenAvatar(e.target);
+      }
+    };
+    container.addEventListener("error", handleError, true);
+    return () => container.removeEventListener("error", handleError, true);
+  }, [map]);
+
+  // Zoom into a cluster, or fan it out when zooming wouldn't separate it
+  const expandCluster = useCallback(
+    (cluster: Cluster<ProfileWithProvince>) => {
+      if (!map) return;
+      const bounds = L.latLngBounds(cluster.points.map((p) => p.position));
+      const padding = L.point(CLUSTER_RADIUS_PX, CLUSTER_RADIUS_PX);
+      const targetZoom = Math.min(
+        map.getBoundsZoom(bounds, false, padding),
+        FOCUS_ZOOM,
+      );
+      if (targetZoom > map.getZoom()) {
+        map.flyToBounds(bounds, {
+          padding: [CLUSTER_RADIUS_PX, CLUSTER_RADIUS_PX],
+          maxZoom: FOCUS_ZOOM,
+        });
+      } else {
+        setExpandedCluster(cluster.key);
+      }
+    },
+    [map],
+  );
+
+  // Fly to the requested marker once, switching back to the avatar view.
+  // Targets the marker itself, so archipelago members land on their island.
+  useEffect(() => {
+    if (!map || !focusRequest || handledFocusRef.current === focusRequest) return;
+    const { profileId } = focusRequest;
+    const target = memberPoints.find((m) => m.id === profileId);
+    if (!target) return;
+
+    handledFocusRef.current = focusRequest;
+    changeAggregation("provinces");
+    setDisplay("avatars");
+    map.flyTo(placeMember(target, FOCUS_ZOOM).position, FOCUS_ZOOM);
+
+    // Below the clustering zoom the marker is remounted once the flight ends
+    const marker = markerRefs.current.get(profileId);
+    if (marker && map.getZoom() > CLUSTER_MAX_ZOOM) marker.openPopup();
+    else pendingPopupRef.current = profileId;
+  }, [
+    map,
+    focusRequest,
+    memberPoints,
+    placeMember,
+    changeAggregation,
+  ]);
+
+  // A focused member sharing a municipality cell is fanned out to reach the popup
+  useEffect(() => {
+    const pending = pendingPopupRef.current;
+    if (!pending || zoom <= CLUSTER_MAX_ZOOM) return;
+    const stack = memberClusters.find(
+      (c) => c.points.length > 1 && c.points.some((p) => p.id === pending),
+    );
+    if (stack) setExpandedCluster(stack.key);
+  }, [memberClusters, zoom]);
+
   const onEachFeature = useCallback(
     (feature: Feature<Geometry>, layer: Layer) => {
-      const provinceName = getProvinceName(feature);
+      const key = featureKey(feature);
       const displayName = getFeatureLabel(feature);
+      const island = showCommunities ? null : getIslandName(feature);
 
       layer.on({
         mouseover: (e: LeafletMouseEvent) => {
           // Reset previous hover if mouseout was skipped
           const prev = prevHoveredRef.current;
           if (prev && prev.layer !== layer) {
-            const prevProvince = prev.province;
-            if (prevProvince !== selectedProvince) {
-              (prev.layer as L.Path).setStyle(
-                occupiedProvinces.has(prevProvince) ? OCCUPIED_STYLE : DEFAULT_STYLE,
-              );
-            }
+            (prev.layer as L.Path).setStyle(styleFeatureRef.current(prev.feature));
           }
-          prevHoveredRef.current = { layer, province: provinceName };
+          prevHoveredRef.current = { layer, feature };
 
-          setHovered({ label: displayName, province: provinceName });
-          if (provinceName !== selectedProvince) {
+          cancelHoverHide();
+          setHovered({ label: displayName, key, island });
+          if (showDensity) {
+            e.target.setStyle({ weight: HOVER_STYLE.weight, color: HOVER_STYLE.color });
+          } else if (!isSelectedFeature(feature, key)) {
             e.target.setStyle(HOVER_STYLE);
           }
           e.target.bringToFront();
@@ -353,50 +962,150 @@ export function SpainMap({
           if (prevHoveredRef.current?.layer === layer) {
             prevHoveredRef.current = null;
           }
-          setHovered(null);
-          if (provinceName !== selectedProvince) {
-            if (occupiedProvinces.has(provinceName)) {
-              e.target.setStyle(OCCUPIED_STYLE);
-            } else {
-              e.target.setStyle(DEFAULT_STYLE);
-            }
-          }
+          scheduleHoverHide();
+          e.target.setStyle(styleFeatureRef.current(feature));
         },
         click: () => {
-          onProvinceSelect(provinceName);
+          if (!key) return;
+          if (showCommunities) drillIntoCommunity(key, feature);
+          else onProvinceSelect(key, island);
         },
       });
     },
-    [selectedProvince, onProvinceSelect, occupiedProvinces],
+    [
+      featureKey,
+      cancelHoverHide,
+      scheduleHoverHide,
+      isSelectedFeature,
+      showDensity,
+      showCommunities,
+      drillIntoCommunity,
+      onProvinceSelect,
+    ],
   );
 
-  const styleFeature = useCallback(
-    (feature: Feature<Geometry> | undefined) => {
-      if (!feature) return DEFAULT_STYLE;
-      const provinceName = getProvinceName(feature);
-      if (provinceName === selectedProvince) return SELECTED_STYLE;
-      if (occupiedProvinces.has(provinceName)) return OCCUPIED_STYLE;
-      return DEFAULT_STYLE;
-    },
-    [selectedProvince, occupiedProvinces],
-  );
-
-  const hoveredProfiles = hovered
-    ? (profilesByProvince.get(hovered.province) ?? [])
+  const hoveredProfiles = hovered?.key
+    ? (profilesByKey.get(hovered.key) ?? [])
     : [];
+  const hoveredCount = hovered?.key ? (countsByKey.get(hovered.key) ?? 0) : 0;
+  /** Counted members without a name to list */
+  const hoveredAnonymous = hoveredCount - hoveredProfiles.length;
+  const hoveredDensity =
+    showDensity && densityMetric === "per-100k" && hovered?.key
+      ? densityValues.get(hovered.key)
+      : undefined;
+
+  /**
+   * Per-province breakdown shown when hovering a community, per-island when
+   * hovering one of the split archipelago features
+   */
+  const hoveredBreakdown = useMemo(() => {
+    const byIsland = !showCommunities && !!hovered?.island;
+    if (!hovered?.key || (!showCommunities && !byIsland)) return [];
+    const counts = new Map<string, number>();
+    const add = (name: string, n: number) => counts.set(name, (counts.get(name) ?? 0) + n);
+    for (const p of hoveredProfiles) {
+      add(
+        byIsland ? (p.islas?.nombre ?? NO_ISLAND_LABEL) : (p.provincias?.nombre ?? "?"),
+        1,
+      );
+    }
+    // Anonymous members count towards their island or province too
+    const provinceCodes = byIsland
+      ? [hovered.key]
+      : [...communityIndex].filter(([, c]) => c === hovered.key).map(([code]) => code);
+    for (const code of provinceCodes) {
+      const provinceName = provincias.find((p) => p.codigo_ine === code)?.nombre ?? "?";
+      for (const [island, n] of anonymousByProvince.get(code) ?? []) {
+        add(byIsland ? (island ?? NO_ISLAND_LABEL) : provinceName, n);
+      }
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [
+    showCommunities,
+    hovered?.key,
+    hovered?.island,
+    hoveredProfiles,
+    communityIndex,
+    provincias,
+    anonymousByProvince,
+  ]);
+  const hoveredIslandCount = hovered?.island
+    ? (hoveredBreakdown.find(([name]) => name === hovered.island)?.[1] ?? 0)
+    : undefined;
 
   if (error) {
     return (
-      <Card className='border-destructive'>
-        <CardContent className='py-8 text-center'>
-          <p className='text-destructive text-sm'>
-            Error al cargar el mapa: {error}
-          </p>
-        </CardContent>
-      </Card>
+      <div className='flex justify-center py-16'>
+        <DataErrorBanner
+          error={error}
+          onRetry={() => setBoundariesAttempt((n) => n + 1)}
+        />
+      </div>
     );
   }
 
+  /** Avatar marker with its popup, for a single member */
+  const renderMemberMarker = (
+    profile: ProfileWithProvince,
+    position: LatLngTuple,
+  ) => (
+    <Marker
+      key={profile.id}
+      position={position}
+      ref={(marker) => {
+        if (marker) markerRefs.current.set(profile.id, marker);
+        else markerRefs.current.delete(profile.id);
+      }}
+      eventHandlers={{
+        add: (e) => {
+          if (pendingPopupRef.current !== profile.id) return;
+          pendingPopupRef.current = null;
+          (e.target as L.Marker).openPopup();
+        },
+      }}
+      icon={createAvatarIcon(profile)}>
+      <Popup className='avatar-popup'>
+        <div className='flex flex-col items-center gap-2 p-2 min-w-[120px]'>
+          <MemberAvatar
+            profile={profile}
+            size={48}
+            className='size-12 border-2 border-[#1d9bf0]'
+            fallbackClassName='text-lg'
+          />
+          {profile.username ? (
+            <Link
+              to='/u/$username'
+              params={{ username: profile.username }}
+              className='text-sm font-semibold text-center hover:underline underline-offset-2'>
+              {profile.full_name ?? profile.username}
+            </Link>
+          ) : (
+            <span className='text-sm font-semibold text-center'>
+              {profile.full_name ?? "Sin nombre"}
+            </span>
+          )}
+          {profile.username && (
+            <a
+              href={`https://x.com/intent/follow?screen_name=${encodeURIComponent(profile.username)}`}
+              target='_blank'
+              rel='noopener noreferrer'
+              className='follow-btn'>
+              <svg
+                viewBox='0 0 24 24'
+                width='14'
+                height='14'
+                fill='currentColor'>
+                <path d='M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z' />
+              </svg>
+              Seguir
+            </a>
+          )}
+        </div>
+      </Popup>
+    </Marker>
+  );
+
   if (!geoData) {
     return (
       <Card>
@@ -409,40 +1118,141 @@ export function SpainMap({
 
   return (
     <div className='relative w-full'>
+      {/* View toggle and drill-down breadcrumb — top left, next to zoom */}
+      <div className='absolute top-3 left-14 flex items-center gap-2 map-overlay'>
+        <SegmentedControl
+          value={aggregation}
+          options={AGGREGATION_OPTIONS}
+          onChange={changeAggregation}
+        />
+        <SegmentedControl
+          value={display}
+          options={DISPLAY_OPTIONS}
+          onChange={setDisplay}
+        />
+        {drilledCommunity && (
+          <Button
+            variant='secondary'
+            size='xs'
+            className='shadow-lg'
+            onClick={leaveDrilldown}>
+            <ArrowLeft />
+            {drilledCommunity}
+          </Button>
+        )}
+        {onTimelineDateChange && !timelineOpen && (
+          <Button variant='secondary' size='xs' className='shadow-lg' onClick={openTimeline}>
+            <History />
+            Evolución
+          </Button>
+        )}
+      </div>
+
+      {/* Time-lapse controls — bottom centre */}
+      {timelineOpen && timelineAt !== null && (
+        <div className='absolute bottom-10 left-1/2 -translate-x-1/2 w-[min(40rem,calc(100%-1.5rem))] map-overlay'>
+          {timeline.isError ? (
+            <DataErrorBanner
+              error={timeline.error}
+              retrying={timeline.isFetching}
+              onRetry={() => timeline.refetch()}
+            />
+          ) : (
+            <TimelineControl
+              start={timelineBegin}
+              end={timelineEnd}
+              value={timelineAt}
+              playing={playing}
+              speed={speed}
+              onChange={setCursor}
+              onCommit={commitCursor}
+              onPlayingChange={setPlaying}
+              onSpeedChange={setSpeed}
+              onClose={() => onTimelineDateChange(null)}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Choropleth legend — bottom left, above the footer */}
+      {showDensity && (
+        <div className='absolute bottom-8 left-3 map-overlay'>
+          <MapLegend
+            breaks={densityBreaks}
+            min={Math.min(...densityValues.values())}
+            metric={densityMetric}
+            onMetricChange={setDensityMetric}
+            method={classification}
+            onMethodChange={setClassification}
+            emptyColor={DEFAULT_STYLE.fillColor}
+          />
+        </div>
+      )}
+
       {/* Hover tooltip: province name + users — top right */}
       {hovered && (
-        <div className='absolute top-3 right-3 flex flex-col items-end gap-2 map-overlay'>
+        <div
+          className='absolute top-3 right-3 flex flex-col items-end gap-2 map-overlay'
+          onMouseEnter={cancelHoverHide}
+          onMouseLeave={scheduleHoverHide}>
           <Badge variant='secondary' className='text-sm shadow-lg'>
             {hovered.label}
-            {hoveredProfiles.length > 0 && (
+            {hoveredCount > 0 && (
               <span className='ml-1.5 text-muted-foreground'>
-                ({hoveredProfiles.length})
+                ({hoveredIslandCount !== undefined
+                  ? `${hoveredIslandCount} de ${hoveredCount}`
+                  : hoveredCount}
+                {hoveredDensity !== undefined &&
+                  ` · ${formatDensityValue(hoveredDensity, densityMetric)}/100k`}
+                )
               </span>
             )}
           </Badge>
 
-          {hoveredProfiles.length > 0 && (
+          {hoveredCount > 0 && (
             <Card className='w-56 shadow-xl'>
               <CardContent className='p-3 space-y-2'>
+                {(hoveredBreakdown.length > 1 || hovered.island) &&
+                  hoveredBreakdown.length > 0 && (
+                    <p className='text-[11px] text-muted-foreground'>
+                      {hoveredBreakdown.map(([name, count], i) => (
+                        <span
+                          key={name}
+                          className={
+                            name === hovered.island ? "text-foreground font-medium" : ""
+                          }>
+                          {i > 0 && " · "}
+                          {name} {count}
+                        </span>
+                      ))}
+                    </p>
+                  )}
                 {hoveredProfiles.slice(0, 8).map((p) => (
                   <div key={p.id} className='flex items-center gap-2'>
                     <Tooltip>
                       <TooltipTrigger asChild>
-                        <Avatar className='h-6 w-6'>
-                          <AvatarImage
-                            src={p.avatar_url ?? undefined}
-                            alt={p.full_name ?? ""}
-                          />
-                          <AvatarFallback className='text-[10px]'>
-                            {(p.full_name ?? "?").charAt(0).toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
+                        <MemberAvatar
+                          profile={p}
+                          size={24}
+                          className='h-6 w-6'
+                          fallbackClassName='text-[10px]'
+                        />
                       </TooltipTrigger>
                       <TooltipContent>{p.full_name ?? "Sin nombre"}</TooltipContent>
                     </Tooltip>
                     <span className='text-xs text-foreground truncate'>
                       {p.full_name ?? "Sin nombre"}
                     </span>
+                    {showCommunities && p.provincias && (
+                      <span className='ml-auto text-[10px] text-muted-foreground shrink-0'>
+                        {p.provincias.nombre}
+                      </span>
+                    )}
+                    {hovered.island && p.islas && (
+                      <span className='ml-auto text-[10px] text-muted-foreground shrink-0'>
+                        {p.islas.nombre}
+                      </span>
+                    )}
                   </div>
                 ))}
                 {hoveredProfiles.length > 8 && (
@@ -450,16 +1260,33 @@ export function SpainMap({
                     +{hoveredProfiles.length - 8} más
                   </p>
                 )}
+                {hoveredAnonymous > 0 && (
+                  <p className='text-xs text-muted-foreground'>
+                    {hoveredProfiles.length > 0 ? "y " : ""}
+                    {hoveredAnonymous === 1
+                      ? "1 miembro anónimo"
+                      : `${hoveredAnonymous} miembros anónimos`}
+                  </p>
+                )}
+                {!showCommunities && hovered.key && (
+                  <Link
+                    to='/provincia/$codigo'
+                    params={{ codigo: hovered.key }}
+                    className='block text-xs text-primary hover:underline underline-offset-2'>
+                    Ver todos los miembros
+                  </Link>
+                )}
               </CardContent>
             </Card>
           )}
         </div>
       )}
 
-      <div className='overflow-hidden'>
+      <div className={cn("overflow-hidden", timelineOpen && "map-timeline")}>
         <MapContainer
-          center={[40.0, -3.7]}
-          zoom={5}
+          ref={setMap}
+          center={INITIAL_CENTER}
+          zoom={INITIAL_ZOOM}
           minZoom={3}
           maxZoom={12}
           attributionControl={false}
@@ -467,53 +1294,63 @@ export function SpainMap({
           style={{ height: "calc(100vh - 52px)", width: "100%" }}
           className='bg-background'>
           <TileLayer url='https://{s}.basemaps.cartocdn.com/dark_nolabels/{z}/{x}/{y}{r}.png' />
+          {/* The time-lapse restyles the features instead, so colours fade */}
           <GeoJSON
-            key={`${selectedProvince ?? "none"}-${occupiedProvinces.size}-${dialogOpen}`}
-            data={geoData}
+            ref={geoJsonRef}
+            key={`${aggregation}-${display}-${densityMetric}-${classification}-${drilledCommunity ?? "all"}-${selectedProvince ?? "none"}-${selectedIsland ?? "none"}-${dialogOpen}-${timelineOpen ? "timeline" : `${occupiedKeys.size}-${densitySignature}`}`}
+            data={showCommunities && communityData ? communityData : geoData}
             style={styleFeature}
             onEachFeature={onEachFeature}
           />
-          {/* Avatar markers for each user in their province */}
-          {avatarMarkers.map((m) => (
-            <Marker
-              key={m.key}
-              position={m.position}
-              icon={createAvatarIcon(
-                m.profile.avatar_url,
-                m.profile.full_name ?? "",
-              )}>
-              <Popup className='avatar-popup'>
-                <div className='flex flex-col items-center gap-2 p-2 min-w-[120px]'>
-                  {m.profile.avatar_url && (
-                    <img
-                      src={m.profile.avatar_url}
-                      alt={m.profile.full_name ?? ""}
-                      className='w-12 h-12 rounded-full border-2 border-[#1d9bf0]'
-                    />
-                  )}
-                  <span className='text-sm font-semibold text-center'>
-                    {m.profile.full_name ?? "Sin nombre"}
-                  </span>
-                  {m.profile.username && (
-                    <a
-                      href={`https://x.com/intent/follow?screen_name=${m.profile.username}`}
-                      target='_blank'
-                      rel='noopener noreferrer'
-                      className='follow-btn'>
-                      <svg
-                        viewBox='0 0 24 24'
-                        width='14'
-                        height='14'
-                        fill='currentColor'>
-                        <path d='M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z' />
-                      </svg>
-                      Seguir
-                    </a>
-                  )}
-                </div>
-              </Popup>
-            </Marker>
-          ))}
+          {/* Member counts per community */}
+          {showCommunities &&
+            !showDensity &&
+            communityMarkers.map((m) => (
+              <Marker
+                key={m.key}
+                position={m.position}
+                icon={createCountIcon(m.count)}
+                interactive={false}
+              />
+            ))}
+          {/* Member avatars, clustered per province below the clustering zoom */}
+          {!showCommunities &&
+            !showDensity &&
+            visibleClusters.map((cluster) => {
+              if (cluster.points.length === 1) {
+                const [point] = cluster.points;
+                return renderMemberMarker(point.data, point.position);
+              }
+              if (spiderfied?.key === cluster.key) return null;
+              return (
+                <Marker
+                  key={cluster.key}
+                  position={cluster.position}
+                  icon={createClusterIcon(cluster.points.map((p) => p.data))}
+                  eventHandlers={{ click: () => expandCluster(cluster) }}
+                />
+              );
+            })}
+          {/* Members on their way to a new province */}
+          {!showCommunities &&
+            !showDensity &&
+            moving.map((m) => <MovingAvatar key={`moving-${m.profile.id}`} {...m} />)}
+          {/* Members of the fanned-out cluster, linked to its centre */}
+          {!showCommunities &&
+            !showDensity &&
+            spiderfied?.members.map(({ point, position }) => (
+              <Polyline
+                key={`leg-${point.id}`}
+                positions={[spiderfied.center, position]}
+                pathOptions={SPIDER_LEG_STYLE}
+                interactive={false}
+              />
+            ))}
+          {!showCommunities &&
+            !showDensity &&
+            spiderfied?.members.map(({ point, position }) =>
+              renderMemberMarker(point.data, position),
+            )}
         </MapContainer>
       </div>
     </div>
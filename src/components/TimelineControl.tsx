@@ -0,0 +1,85 @@
+import { Pause, Play, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SegmentedControl } from "@/components/SegmentedControl";
+
+/** Playback speed, in days of history per second */
+export type TimelineSpeed = "7" | "30" | "90";
+
+const SPEED_OPTIONS: { value: TimelineSpeed; label: string }[] = [
+  { value: "7", label: "1 sem/s" },
+  { value: "30", label: "1 mes/s" },
+  { value: "90", label: "3 meses/s" },
+];
+
+interface TimelineControlProps {
+  start: number;
+  end: number;
+  /** Moment shown on the map, epoch ms */
+  value: number;
+  playing: boolean;
+  speed: TimelineSpeed;
+  /** While dragging the scrubber */
+  onChange: (value: number) => void;
+  /** Once the scrubber is released */
+  onCommit: (value: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: TimelineSpeed) => void;
+  onClose: () => void;
+}
+
+/** Play, pause and scrub through the community's history on the map */
+export function TimelineControl({
+  start,
+  end,
+  value,
+  playing,
+  speed,
+  onChange,
+  onCommit,
+  onPlayingChange,
+  onSpeedChange,
+  onClose,
+}: TimelineControlProps) {
+  const finished = value >= end;
+  const label = new Date(value).toLocaleDateString("es-ES", { dateStyle: "medium" });
+
+  return (
+    <div className='flex flex-wrap items-center gap-3 rounded-lg border border-border bg-card px-3 py-2 shadow-lg'>
+      <Button
+        variant='secondary'
+        size='icon-sm'
+        aria-label={playing ? "Pausar" : finished ? "Volver a empezar" : "Reproducir"}
+        onClick={() => {
+          if (finished) onChange(start);
+          onPlayingChange(!playing);
+        }}>
+        {playing ? <Pause /> : finished ? <RotateCcw /> : <Play />}
+      </Button>
+      <span className='w-24 text-sm font-medium tabular-nums'>{label}</span>
+      <input
+        type='range'
+        min={start}
+        max={end}
+        step={24 * 60 * 60 * 1000}
+        value={value}
+        aria-label='Fecha'
+        onChange={(e) => {
+          onPlayingChange(false);
+          onChange(Number(e.target.value));
+        }}
+        onPointerUp={(e) => onCommit(Number(e.currentTarget.value))}
+        onKeyUp={(e) => onCommit(Number(e.currentTarget.value))}
+        className='flex-1 min-w-40 accent-primary'
+      />
+      <SegmentedControl
+        value={speed}
+        options={SPEED_OPTIONS}
+        onChange={onSpeedChange}
+        className='shadow-none'
+      />
+      <Button variant='ghost' size='icon-sm' aria-label='Cerrar la evolución' onClick={onClose}>
+        <X />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/** Turns a stored avatar URL into the one to load for a given display size */
+export interface AvatarSource {
+  id: string;
+  resolve: (url: string, pixels: number) => string;
+}
+
+/** Sizes X serves every profile image at, smallest first */
+const X_VARIANTS: { suffix: string; pixels: number }[] = [
+  { suffix: "_mini", pixels: 24 },
+  { suffix: "_normal", pixels: 48 },
+  { suffix: "_bigger", pixels: 73 },
+  { suffix: "_200x200", pixels: 200 },
+  { suffix: "_400x400", pixels: 400 },
+];
+
+const X_VARIANT_PATTERN = /_(mini|normal|bigger|200x200|400x400)(\.\w+)?$/;
+
+/**
+ * The smallest X variant covering the size. OAuth hands out `_normal`,
+ * too blurry for the profile page and bigger than map markers need.
+ */
+export function xAvatarVariant(url: string, pixels: number): string {
+  if (!X_VARIANT_PATTERN.test(url)) return url;
+  const variant = X_VARIANTS.find((v) => v.pixels >= pixels) ?? X_VARIANTS.at(-1)!;
+  return url.replace(X_VARIANT_PATTERN, (_, _size, ext = "") => `${variant.suffix}${ext}`);
+}
+
+/** Caching proxy that picks X's size variant, e.g. the avatar-proxy edge function */
+export function proxyAvatarSource(baseUrl: string): AvatarSource {
+  return {
+    id: `proxy:${baseUrl}`,
+    resolve: (url, pixels) =>
+      `${baseUrl}?url=${encodeURIComponent(url)}&size=${pixels}`,
+  };
+}
+
+/** Local stand-in for the proxy: X's own size variants and the browser cache */
+export const localAvatarSource: AvatarSource = {
+  id: "local",
+  resolve: xAvatarVariant,
+};
+
+const avatarProxyUrl = import.meta.env.VITE_AVATAR_PROXY_URL as string | undefined;
+
+/** The proxy when VITE_AVATAR_PROXY_URL is set, the local stand-in otherwise */
+export const defaultAvatarSource: AvatarSource = avatarProxyUrl
+  ? proxyAvatarSource(avatarProxyUrl)
+  : localAvatarSource;
+
+/**
+ * URL to load an avatar shown at `size` CSS pixels, accounting for the
+ * screen density; null when there's no avatar.
+ */
+export function avatarSrc(
+  url: string | null,
+  size: number,
+  source: AvatarSource = defaultAvatarSource,
+): string | null {
+  if (!url) return null;
+  const density = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+  return source.resolve(url, Math.ceil(size * Math.min(density, 3)));
+}
+
+/** Avatars that failed to load this session, e.g. expired X URLs */
+const failedAvatars = new Set<string>();
+
+export function markAvatarFailed(src: string) {
+  failedAvatars.add(src);
+}
+
+/** Whether to go straight to the initials instead of trying the image again */
+export function hasAvatarFailed(src: string): boolean {
+  return failedAvatars.has(src);
+}
+
+/** Letter shown when there's no usable picture */
+export function avatarInitial(name: string | null): string {
+  return (name?.trim() || "?").charAt(0).toUpperCase();
+}
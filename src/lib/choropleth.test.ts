@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { classBreaks, classIndex } from "@/lib/choropleth";
+
+const oneToTen = [7, 3, 10, 1, 5, 2, 9, 4, 8, 6];
+
+describe("classBreaks", () => {
+  it("splits quantiles into classes of equal size", () => {
+    expect(classBreaks(oneToTen, 5, "quantile")).toEqual([2, 4, 6, 8, 10]);
+  });
+
+  it("splits equal intervals between the minimum and the maximum", () => {
+    const breaks = classBreaks(oneToTen, 5, "equal-interval");
+    expect(breaks).toHaveLength(5);
+    [2.8, 4.6, 6.4, 8.2, 10].forEach((expected, i) =>
+      expect(breaks[i]).toBeCloseTo(expected),
+    );
+  });
+
+  it("puts Jenks breaks in the gaps between clusters", () => {
+    expect(classBreaks([50, 1, 11, 2, 52, 10, 3, 12], 3, "jenks")).toEqual([3, 12, 52]);
+  });
+
+  it("gives a single class when every value is zero", () => {
+    for (const method of ["quantile", "equal-interval", "jenks"] as const) {
+      expect(classBreaks([0, 0, 0, 0], 5, method)).toEqual([0]);
+    }
+  });
+
+  it("gives no more classes than there are values", () => {
+    expect(classBreaks([5, 1], 5, "quantile")).toEqual([1, 5]);
+    expect(classBreaks([5, 1], 5, "equal-interval")).toEqual([3, 5]);
+    expect(classBreaks([5, 1], 5, "jenks")).toEqual([1, 5]);
+    // Repeated values merge their bounds
+    expect(classBreaks([5, 1, 5], 5, "quantile")).toEqual([5]);
+  });
+
+  it("ignores values that aren't finite", () => {
+    expect(classBreaks([Number.NaN, Number.POSITIVE_INFINITY], 5, "quantile")).toEqual([]);
+  });
+});
+
+describe("classIndex", () => {
+  it("finds the first class whose bound holds the value", () => {
+    const breaks = [2, 4, 6];
+    expect(classIndex(0, breaks)).toBe(0);
+    expect(classIndex(2, breaks)).toBe(0);
+    expect(classIndex(5, breaks)).toBe(2);
+    // Above the maximum, e.g. a stale break list: the top class
+    expect(classIndex(9, breaks)).toBe(2);
+  });
+});
@@ -0,0 +1,121 @@
+export type ClassificationMethod = "quantile" | "equal-interval" | "jenks";
+
+/** What the density view colours by */
+export type DensityMetric = "absolute" | "per-100k";
+
+/** Sequential ramp from dark teal to the X accent blue, lowest class first */
+export const CHOROPLETH_COLORS = [
+  "#123a4a",
+  "#15587a",
+  "#1878a8",
+  "#1d9bf0",
+  "#8ecdf7",
+];
+
+/**
+ * Upper bound of each class, ascending; the last one is the maximum value.
+ * Returns fewer than `classes` bounds when there aren't enough distinct values.
+ */
+export function classBreaks(
+  values: number[],
+  classes: number,
+  method: ClassificationMethod,
+): number[] {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+
+  const k = Math.min(classes, new Set(sorted).size);
+  let breaks: number[];
+  switch (method) {
+    case "quantile":
+      breaks = quantileBreaks(sorted, k);
+      break;
+    case "equal-interval":
+      breaks = equalIntervalBreaks(sorted, k);
+      break;
+    case "jenks":
+      breaks = jenksBreaks(sorted, k);
+      break;
+  }
+  return Array.from(new Set(breaks));
+}
+
+/** Index of the class a value falls in */
+export function classIndex(value: number, breaks: number[]): number {
+  const index = breaks.findIndex((upper) => value <= upper);
+  return index === -1 ? breaks.length - 1 : index;
+}
+
+function quantileBreaks(sorted: number[], k: number): number[] {
+  const breaks: number[] = [];
+  for (let i = 1; i <= k; i++) {
+    breaks.push(sorted[Math.ceil((i * sorted.length) / k) - 1]);
+  }
+  return breaks;
+}
+
+function equalIntervalBreaks(sorted: number[], k: number): number[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const breaks: number[] = [];
+  for (let i = 1; i < k; i++) {
+    breaks.push(min + ((max - min) * i) / k);
+  }
+  breaks.push(max);
+  return breaks;
+}
+
+/**
+ * Fisher-Jenks natural breaks: the split into k classes that minimises the
+ * summed within-class variance. O(k·n²), fine for a few hundred values.
+ */
+function jenksBreaks(sorted: number[], k: number): number[] {
+  const n = sorted.length;
+  // lowerClassLimits[i][j]: index (1-based) where the last class starts
+  // when the first i values are split into j classes
+  const lowerClassLimits = Array.from({ length: n + 1 }, () =>
+    new Array<number>(k + 1).fill(0),
+  );
+  const variance = Array.from({ length: n + 1 }, () =>
+    new Array<number>(k + 1).fill(Number.POSITIVE_INFINITY),
+  );
+  for (let j = 1; j <= k; j++) {
+    lowerClassLimits[1][j] = 1;
+    variance[1][j] = 0;
+  }
+
+  for (let i = 2; i <= n; i++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    let classVariance = 0;
+    for (let m = 1; m <= i; m++) {
+      const lower = i - m + 1;
+      const value = sorted[lower - 1];
+      count++;
+      sum += value;
+      sumSquares += value * value;
+      classVariance = sumSquares - (sum * sum) / count;
+      if (lower === 1) continue;
+      for (let j = 2; j <= k; j++) {
+        const candidate = classVariance + variance[lower - 1][j - 1];
+        if (variance[i][j] >= candidate) {
+          lowerClassLimits[i][j] = lower;
+          variance[i][j] = candidate;
+        }
+      }
+    }
+    lowerClassLimits[i][1] = 1;
+    variance[i][1] = classVariance;
+  }
+
+  const breaks = new Array<number>(k);
+  breaks[k - 1] = sorted[n - 1];
+  let end = n;
+  for (let j = k; j >= 2; j--) {
+    const start = lowerClassLimits[end][j] - 1;
+    breaks[j - 2] = sorted[start - 1];
+    end = start;
+  }
+  return breaks;
+}
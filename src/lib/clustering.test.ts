@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  clusterPoints,
+  spiderfyPositions,
+  type ClusterPoint,
+  type LatLngTuple,
+} from "@/lib/clustering";
+
+const ZOOM = 8;
+const RADIUS_PX = 40;
+
+function point(id: string, group: string, position: LatLngTuple): ClusterPoint<null> {
+  return { id, group, position, data: null };
+}
+
+// Two tight knots in Madrid, one member apart, and a knot in Barcelona
+const points = [
+  point("m3", "28", [40.42, -3.7]),
+  point("m1", "28", [40.41, -3.71]),
+  point("m2", "28", [40.41, -3.69]),
+  point("m4", "28", [40.9, -3.2]),
+  point("b2", "08", [41.39, 2.17]),
+  point("b1", "08", [41.38, 2.16]),
+];
+
+/** Same points, starting somewhere else */
+function rotated<T>(items: T[], by: number): T[] {
+  return [...items.slice(by), ...items.slice(0, by)];
+}
+
+describe("clusterPoints", () => {
+  it("groups nearby points of the same group only", () => {
+    const clusters = clusterPoints(points, ZOOM, RADIUS_PX);
+
+    expect(clusters.map((c) => [c.key, c.points.map((p) => p.id)])).toEqual([
+      ["08:b1", ["b1", "b2"]],
+      ["28:m1", ["m1", "m2", "m3"]],
+      ["28:m4", ["m4"]],
+    ]);
+  });
+
+  it("gives the same clusters and spiderfy order whatever the input order", () => {
+    /** Where each member lands once its cluster fans out */
+    const spiderfied = (input: ClusterPoint<null>[]) =>
+      clusterPoints(input, ZOOM, RADIUS_PX).flatMap((cluster) => {
+        const fanned = spiderfyPositions(cluster.position, cluster.points.length, 12, 34);
+        return cluster.points.map((p, i) => [p.id, fanned[i]]);
+      });
+    const expected = clusterPoints(points, ZOOM, RADIUS_PX);
+
+    for (const input of [[...points].reverse(), rotated(points, 2), rotated(points, 5)]) {
+      expect(clusterPoints(input, ZOOM, RADIUS_PX)).toEqual(expected);
+      expect(spiderfied(input)).toEqual(spiderfied(points));
+    }
+  });
+});
+
+describe("spiderfyPositions", () => {
+  it("places each member apart from the others", () => {
+    for (const count of [3, 8, 20]) {
+      const positions = spiderfyPositions([40.4, -3.7], count, 12, 34);
+      expect(positions).toHaveLength(count);
+      expect(new Set(positions.map((p) => p.join(","))).size).toBe(count);
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import type { Position } from "geojson";
+import { pointInPolygon, ringBounds } from "@/lib/geometry";
+
+/** [lat, lng], as Leaflet expects */
+export type LatLngTuple = [number, number];
+
+export interface ClusterPoint<T> {
+  id: string;
+  /** Points only cluster with others in the same group (province) */
+  group: string;
+  position: LatLngTuple;
+  data: T;
+}
+
+export interface Cluster<T> {
+  /** Stable while the cluster keeps its first member */
+  key: string;
+  group: string;
+  /** Mean position of the members */
+  position: LatLngTuple;
+  points: ClusterPoint<T>[];
+}
+
+const TILE_SIZE = 256;
+const PLACEMENT_ATTEMPTS = 64;
+/** Share of the polygon bbox, around its centre, where members are placed */
+const PLACEMENT_SPAN = 0.8;
+
+/** FNV-1a, so the same id always yields the same seed */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 generator returning floats in [0, 1) */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Position for a member inside a province polygon (outer ring then holes,
+ * in [lng, lat]). Derived only from the id, so it doesn't move when the
+ * member list reloads or other members come and go.
+ */
+export function memberPosition(
+  id: string,
+  rings: Position[][],
+  fallback: LatLngTuple,
+): LatLngTuple {
+  const outer = rings[0] ?? [];
+  if (outer.length === 0) return fallback;
+
+  const [minLng, minLat, maxLng, maxLat] = ringBounds(outer);
+  const spanLng = (maxLng - minLng) * PLACEMENT_SPAN;
+  const spanLat = (maxLat - minLat) * PLACEMENT_SPAN;
+  const originLng = (minLng + maxLng - spanLng) / 2;
+  const originLat = (minLat + maxLat - spanLat) / 2;
+
+  const random = seededRandom(hashString(id));
+  for (let i = 0; i < PLACEMENT_ATTEMPTS; i++) {
+    const lng = originLng + random() * spanLng;
+    const lat = originLat + random() * spanLat;
+    if (pointInPolygon([lng, lat], rings)) return [lat, lng];
+  }
+  return fallback;
+}
+
+/** Web Mercator pixel coordinates at a zoom level */
+export function latLngToPixel([lat, lng]: LatLngTuple, zoom: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return [
+    ((lng + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  ];
+}
+
+export function pixelToLatLng([x, y]: [number, number], zoom: number): LatLngTuple {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return [
+    (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    (x / scale) * 360 - 180,
+  ];
+}
+
+/**
+ * Greedy distance clustering in screen space, per group. Groups and points
+ * are taken in id order so the same points and zoom always give the same
+ * clusters, in the same order, however the input is sorted.
+ */
+export function clusterPoints<T>(
+  points: ClusterPoint<T>[],
+  zoom: number,
+  radiusPx: number,
+): Cluster<T>[] {
+  const byGroup = new Map<string, ClusterPoint<T>[]>();
+  for (const point of points) {
+    const list = byGroup.get(point.group);
+    if (list) list.push(point);
+    else byGroup.set(point.group, [point]);
+  }
+
+  const clusters: Cluster<T>[] = [];
+  const groups = [...byGroup.keys()].sort();
+  for (const group of groups) {
+    const groupPoints = byGroup.get(group)!;
+    const sorted = [...groupPoints].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    const pixels = sorted.map((p) => latLngToPixel(p.position, zoom));
+    const taken = new Array<boolean>(sorted.length).fill(false);
+
+    for (let i = 0; i < sorted.length; i++) {
+      if (taken[i]) continue;
+      taken[i] = true;
+      const members = [sorted[i]];
+      for (let j = i + 1; j < sorted.length; j++) {
+        if (taken[j]) continue;
+        const dx = pixels[j][0] - pixels[i][0];
+        const dy = pixels[j][1] - pixels[i][1];
+        if (dx * dx + dy * dy <= radiusPx * radiusPx) {
+          taken[j] = true;
+          members.push(sorted[j]);
+        }
+      }
+
+      const lat = members.reduce((sum, p) => sum + p.position[0], 0) / members.length;
+      const lng = members.reduce((sum, p) => sum + p.position[1], 0) / members.length;
+      clusters.push({
+        key: `${group}:${members[0].id}`,
+        group,
+        position: [lat, lng],
+        points: members,
+      });
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Positions fanning out from a cluster centre: a circle for a few members,
+ * a spiral when they wouldn't fit around it.
+ */
+export function spiderfyPositions(
+  center: LatLngTuple,
+  count: number,
+  zoom: number,
+  spacingPx: number,
+): LatLngTuple[] {
+  const [cx, cy] = latLngToPixel(center, zoom);
+  const offsets: [number, number][] = [];
+
+  if (count <= 8) {
+    const radius = Math.max(spacingPx, (spacingPx * count) / (2 * Math.PI));
+    for (let i = 0; i < count; i++) {
+      const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+      offsets.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+    }
+  } else {
+    let angle = 0;
+    let radius = spacingPx;
+    for (let i = 0; i < count; i++) {
+      offsets.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+      // Advance one marker width along the arc, growing the spiral as it turns
+      angle += spacingPx / radius;
+      radius += (spacingPx * spacingPx) / (2 * Math.PI * radius);
+    }
+  }
+
+  return offsets.map(([dx, dy]) => pixelToLatLng([cx + dx, cy + dy], zoom));
+}
@@ -0,0 +1,146 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import type { Provincia } from "@/lib/db";
+import { PROVINCES, getProvinceCode } from "@/lib/provinces";
+import { pointInRing, ringArea } from "@/lib/geometry";
+
+/**
+ * Community of every province INE code. Database rows win; the bundled
+ * catalogue fills in provinces whose `comunidad_autonoma` is empty.
+ */
+export function buildCommunityIndex(provincias: Provincia[]): Map<string, string> {
+  const index = new Map(PROVINCES.map((p) => [p.codigo, p.comunidad]));
+  for (const row of provincias) {
+    if (row.codigo_ine && row.comunidad_autonoma) {
+      index.set(row.codigo_ine, row.comunidad_autonoma);
+    }
+  }
+  return index;
+}
+
+export function getCommunityName(feature: Feature<Geometry>): string | null {
+  const value = feature.properties?.mapCommunityName;
+  return typeof value === "string" ? value : null;
+}
+
+/** Merge province features into one feature per autonomous community */
+export function dissolveCommunities(
+  data: FeatureCollection,
+  communityOf: ReadonlyMap<string, string>,
+): FeatureCollection {
+  const groups = new Map<string, { codes: Set<string>; polygons: Position[][][] }>();
+
+  for (const feature of data.features) {
+    const code = getProvinceCode(feature);
+    const community = code ? communityOf.get(code) : undefined;
+    if (!code || !community) continue;
+
+    const group = groups.get(community) ?? { codes: new Set(), polygons: [] };
+    group.codes.add(code);
+    group.polygons.push(...featurePolygons(feature));
+    groups.set(community, group);
+  }
+
+  const features: Feature<Geometry>[] = [];
+  for (const [community, group] of groups) {
+    features.push({
+      type: "Feature",
+      properties: {
+        mapCommunityName: community,
+        mapDisplayName: community,
+        mapProvinceCodes: Array.from(group.codes).sort(),
+      },
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: dissolvePolygons(group.polygons) ?? group.polygons,
+      },
+    });
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
+function featurePolygons(feature: Feature<Geometry>): Position[][][] {
+  if (feature.geometry.type === "Polygon") return [feature.geometry.coordinates];
+  if (feature.geometry.type === "MultiPolygon") return feature.geometry.coordinates;
+  return [];
+}
+
+const pointKey = (p: Position) => `${p[0]},${p[1]}`;
+
+function edgeKey(a: Position, b: Position): string {
+  const ka = pointKey(a);
+  const kb = pointKey(b);
+  return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+}
+
+/**
+ * Remove the borders shared between polygons and stitch what is left back
+ * into rings. Relies on neighbours sharing exact vertices, which holds for
+ * topology-derived sources like the bundled asset. Returns null when the
+ * remaining edges don't close into rings, so callers can fall back to the
+ * undissolved polygons.
+ */
+function dissolvePolygons(polygons: Position[][][]): Position[][][] | null {
+  const counts = new Map<string, number>();
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const key = edgeKey(ring[i], ring[i + 1]);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  // Edges seen once are on the outline; index them by their start point
+  const outgoing = new Map<string, Position[][]>();
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [a, b] = [ring[i], ring[i + 1]];
+        if (pointKey(a) === pointKey(b)) continue;
+        if (counts.get(edgeKey(a, b)) !== 1) continue;
+        const list = outgoing.get(pointKey(a)) ?? [];
+        list.push([a, b]);
+        outgoing.set(pointKey(a), list);
+      }
+    }
+  }
+
+  const rings: Position[][] = [];
+  for (const [startKey, edges] of outgoing) {
+    while (edges.length > 0) {
+      const [start, first] = edges.pop()!;
+      const ring = [start, first];
+      let current = pointKey(first);
+      while (current !== startKey) {
+        const next = outgoing.get(current)?.pop();
+        if (!next) return null;
+        ring.push(next[1]);
+        current = pointKey(next[1]);
+      }
+      rings.push(ring);
+    }
+  }
+
+  return assembleRings(rings, ringArea(polygons[0]?.[0] ?? []) >= 0);
+}
+
+/** Group rings into polygons: same winding as the input outers, or holes */
+function assembleRings(rings: Position[][], outerIsPositive: boolean): Position[][][] {
+  const outers: Position[][][] = [];
+  const holes: Position[][] = [];
+  for (const ring of rings) {
+    const isOuter = ringArea(ring) >= 0 === outerIsPositive;
+    if (isOuter) outers.push([ring]);
+    else holes.push(ring);
+  }
+
+  for (const hole of holes) {
+    const owner = outers
+      .filter((polygon) => pointInRing(hole[0], polygon[0]))
+      .sort((a, b) => Math.abs(ringArea(a[0])) - Math.abs(ringArea(b[0])))[0];
+    if (owner) owner.push(hole);
+    else outers.push([hole]);
+  }
+  return outers;
+}
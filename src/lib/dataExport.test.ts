@@ -0,0 +1,85 @@
+import type { User } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { unwrap } from "@/lib/errors";
+import { FIXTURE_PROFILES } from "@/lib/repositories/fixtures";
+
+const { SCRIPT } = vi.hoisted(() => ({ SCRIPT: "<script>alert('hola')</script>" }));
+
+// Hugo placed himself in Barcelona and later moved to Madrid; signed in here
+vi.mock("@/auth/supabaseClient", () => ({ supabase: {}, isSupabaseConfigured: false }));
+vi.mock("@/lib/repositories", async () => {
+  const { FIXTURE_PROFILES } = await import("@/lib/repositories/fixtures");
+  const { createMemoryRepositories } = await import("@/lib/repositories/memory");
+  const hugo = FIXTURE_PROFILES.find((p) => p.username === "hugomtz")!;
+  return {
+    repositories: createMemoryRepositories({
+      profiles: FIXTURE_PROFILES.map((p) =>
+        p.id === hugo.id ? { ...p, bio: `Hola ${SCRIPT}` } : p,
+      ),
+      getViewerId: async () => hugo.id,
+    }),
+  };
+});
+
+import { collectMyData, dataExportHtml } from "@/lib/dataExport";
+
+const hugo = FIXTURE_PROFILES.find((p) => p.username === "hugomtz")!;
+
+const user = {
+  id: hugo.id,
+  app_metadata: { provider: "twitter" },
+  user_metadata: {},
+  aud: "authenticated",
+  created_at: hugo.created_at,
+  last_sign_in_at: "2026-10-19T10:00:00.000Z",
+  identities: [
+    {
+      id: "x-1",
+      identity_id: "x-1",
+      user_id: hugo.id,
+      provider: "twitter",
+      identity_data: { name: SCRIPT, user_name: hugo.username },
+      created_at: hugo.created_at,
+      last_sign_in_at: "2026-10-19T10:00:00.000Z",
+      updated_at: "2026-10-19T10:00:00.000Z",
+    },
+  ],
+} satisfies User;
+
+describe("collectMyData", () => {
+  it("puts the province history in the JSON file, oldest first", async () => {
+    const data = unwrap(await collectMyData(user));
+    // As the header menu downloads it
+    const json = JSON.parse(JSON.stringify(data, null, 2));
+
+    expect(json).toEqual(data);
+    expect(json.location_history).toEqual([
+      { changed_at: hugo.created_at, from: null, to: "Barcelona" },
+      { changed_at: expect.any(String), from: "Barcelona", to: "Madrid" },
+    ]);
+  });
+
+  it("includes the municipality and what X shared", async () => {
+    const data = unwrap(await collectMyData(user));
+
+    expect(data.municipality).toEqual({ codigo: "28079", nombre: "Madrid" });
+    expect(data.account.x_identity).toEqual({ name: SCRIPT, user_name: hugo.username });
+  });
+});
+
+describe("dataExportHtml", () => {
+  it("escapes what the member and X wrote", async () => {
+    const html = dataExportHtml(unwrap(await collectMyData(user)));
+
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("<dd>Hola &lt;script&gt;alert(&#39;hola&#39;)&lt;/script&gt;</dd>");
+    expect(html).toContain("<dd>&lt;script&gt;alert(&#39;hola&#39;)&lt;/script&gt;</dd>");
+  });
+
+  it("lists the moves in plain language", async () => {
+    const html = dataExportHtml(unwrap(await collectMyData(user)));
+
+    expect(html).toContain("Te ubicaste en Barcelona");
+    expect(html).toContain("De Barcelona a Madrid");
+  });
+});
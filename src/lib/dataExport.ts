@@ -0,0 +1,244 @@
+import type { User } from "@supabase/supabase-js";
+import {
+  fetchIslas,
+  fetchMyProfile,
+  fetchProvinceChanges,
+  fetchProvincias,
+  type Profile,
+  type ProfileVisibility,
+  type Provincia,
+} from "@/lib/db";
+import { ok, type Result } from "@/lib/errors";
+import { loadMunicipalities } from "@/lib/municipalities";
+import { VISIBILITY_OPTIONS } from "@/lib/visibility";
+import { escapeHtml } from "@/lib/utils";
+
+/** What signing in consents to, as section 3 of the privacy policy puts it */
+const CONSENT_PURPOSE =
+  "Vincular tu perfil a una ubicación en el mapa y mostrar tu nombre de usuario público";
+
+/** Everything stored about a member, as handed to them on request */
+export interface DataExport {
+  generated_at: string;
+  /** The auth user, including what X shared at sign-in */
+  account: {
+    id: string;
+    provider: string | null;
+    created_at: string;
+    last_sign_in_at: string | null;
+    x_identity: Record<string, unknown> | null;
+  };
+  /** The profiles row exactly as stored; null before it exists */
+  profile: Profile | null;
+  province: Pick<Provincia, "id" | "nombre" | "codigo_ine" | "comunidad_autonoma"> | null;
+  island: { id: number; nombre: string } | null;
+  municipality: { codigo: string; nombre: string } | null;
+  settings: {
+    visibility: ProfileVisibility | null;
+    overridden_fields: string[];
+    identity_synced_at: string | null;
+  };
+  /** Every placement and move, oldest first; `from` is null the first time */
+  location_history: { changed_at: string; from: string | null; to: string }[];
+  /**
+   * Consent is given by signing in with X (privacy policy, section 4), so
+   * the record is the moment the X identity was first linked.
+   */
+  consents: { purpose: string; basis: string; given_at: string }[];
+}
+
+/**
+ * Assemble the signed-in member's data from the data layer. Nothing leaves
+ * the browser: the files are built here and downloaded directly.
+ */
+export async function collectMyData(user: User): Promise<Result<DataExport>> {
+  const [profileResult, provinciasResult, islasResult, changesResult] = await Promise.all([
+    fetchMyProfile(user.id),
+    fetchProvincias(),
+    fetchIslas(),
+    fetchProvinceChanges(user.id),
+  ]);
+  if (!profileResult.ok) return profileResult;
+  if (!provinciasResult.ok) return provinciasResult;
+  if (!islasResult.ok) return islasResult;
+  if (!changesResult.ok) return changesResult;
+
+  const profile = profileResult.data;
+  const provincia = provinciasResult.data.find((p) => p.id === profile?.provincia_id);
+  const isla = islasResult.data.find((i) => i.id === profile?.isla_id);
+  const municipio = profile?.municipio_codigo
+    ? (await loadMunicipalities()).find((m) => m.codigo === profile.municipio_codigo)
+    : undefined;
+  const provinciaName = (id: number) =>
+    provinciasResult.data.find((p) => p.id === id)?.nombre ?? String(id);
+  const identity = user.identities?.find((i) => i.provider === user.app_metadata.provider);
+
+  return ok({
+    generated_at: new Date().toISOString(),
+    account: {
+      id: user.id,
+      provider: user.app_metadata.provider ?? null,
+      created_at: user.created_at,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+      x_identity: identity?.identity_data ?? user.user_metadata ?? null,
+    },
+    profile,
+    province: provincia
+      ? {
+          id: provincia.id,
+          nombre: provincia.nombre,
+          codigo_ine: provincia.codigo_ine,
+          comunidad_autonoma: provincia.comunidad_autonoma,
+        }
+      : null,
+    island: isla ? { id: isla.id, nombre: isla.nombre } : null,
+    municipality: municipio ? { codigo: municipio.codigo, nombre: municipio.nombre } : null,
+    settings: {
+      visibility: profile?.visibility ?? null,
+      overridden_fields: profile?.overridden_fields ?? [],
+      identity_synced_at: profile?.identity_synced_at ?? null,
+    },
+    location_history: changesResult.data.map((c) => ({
+      changed_at: c.changed_at,
+      from: c.from_provincia_id === null ? null : provinciaName(c.from_provincia_id),
+      to: provinciaName(c.to_provincia_id),
+    })),
+    consents: [
+      {
+        purpose: CONSENT_PURPOSE,
+        basis: "Inicio de sesión con X",
+        given_at: identity?.created_at ?? user.created_at,
+      },
+    ],
+  });
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  full_name: "Nombre",
+  avatar_url: "Foto de perfil",
+  username: "Nombre de usuario",
+};
+
+function formatDate(value: string | null | undefined): string {
+  return value
+    ? new Date(value).toLocaleString("es-ES", { dateStyle: "long", timeStyle: "short" })
+    : "—";
+}
+
+/** Label and value pairs as a definition list; values are escaped here */
+function rows(entries: [string, string | null | undefined][]): string {
+  const items = entries
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value || "—")}</dd>`)
+    .join("");
+  return `<dl>${items}</dl>`;
+}
+
+/** Standalone page summarising the export in plain language */
+export function dataExportHtml(data: DataExport): string {
+  const { account, profile, province, island, municipality, settings } = data;
+  const visibility = VISIBILITY_OPTIONS.find((o) => o.value === settings.visibility);
+  const xData = Object.entries(account.x_identity ?? {}).map(
+    ([key, value]): [string, string] => [key, typeof value === "string" ? value : JSON.stringify(value)],
+  );
+
+  const sections = [
+    [
+      "Cuenta",
+      rows([
+        ["Identificador", account.id],
+        ["Proveedor de acceso", account.provider],
+        ["Alta", formatDate(account.created_at)],
+        ["Último inicio de sesión", formatDate(account.last_sign_in_at)],
+      ]),
+    ],
+    ["Datos recibidos de X", xData.length ? rows(xData) : "<p>Ninguno.</p>"],
+    [
+      "Perfil",
+      profile
+        ? rows([
+            ["Nombre", profile.full_name],
+            ["Nombre de usuario", profile.username ? `@${profile.username}` : null],
+            ["Foto de perfil", profile.avatar_url],
+            ["Biografía", profile.bio],
+            ["Enlaces", profile.links.join("\n")],
+            ["Creado", formatDate(profile.created_at)],
+            ["Última modificación", formatDate(profile.updated_at)],
+          ])
+        : "<p>Todavía no tienes perfil.</p>",
+    ],
+    [
+      "Ubicación",
+      rows([
+        ["Provincia", province?.nombre],
+        ["Comunidad autónoma", province?.comunidad_autonoma],
+        ["Isla", island?.nombre],
+        ["Municipio", municipality?.nombre],
+      ]),
+    ],
+    [
+      "Ajustes",
+      rows([
+        ["Visibilidad en el mapa", visibility ? `${visibility.label}: ${visibility.description}` : null],
+        [
+          "Datos editados por ti (no se actualizan desde X)",
+          settings.overridden_fields.map((f) => FIELD_LABELS[f] ?? f).join(", ") || "Ninguno",
+        ],
+        ["Última sincronización con X", formatDate(settings.identity_synced_at)],
+      ]),
+    ],
+    [
+      "Historial de cambios de provincia",
+      data.location_history.length
+        ? rows(
+            data.location_history.map((c): [string, string] => [
+              formatDate(c.changed_at),
+              c.from ? `De ${c.from} a ${c.to}` : `Te ubicaste en ${c.to}`,
+            ]),
+          )
+        : "<p>Todavía no te has ubicado en el mapa.</p>",
+    ],
+    [
+      "Consentimientos",
+      data.consents
+        .map((c) =>
+          rows([
+            ["Finalidad", c.purpose],
+            ["Base", c.basis],
+            ["Fecha", formatDate(c.given_at)],
+          ]),
+        )
+        .join(""),
+    ],
+  ];
+
+  return `<!doctype html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Tus datos en FinXMap</title>
+<style>
+  body { font: 15px/1.5 system-ui, sans-serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #0f1419; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #cfd9de; }
+  dl { display: grid; grid-template-columns: 14rem 1fr; gap: .25rem 1rem; }
+  dt { color: #536471; } dd { margin: 0; white-space: pre-line; overflow-wrap: anywhere; }
+</style>
+</head>
+<body>
+<h1>Tus datos en FinXMap</h1>
+<p>Generado el ${escapeHtml(formatDate(data.generated_at))}. El archivo JSON que acompaña a este resumen contiene los mismos datos en formato legible por máquina.</p>
+${sections.map(([title, body]) => `<h2>${escapeHtml(title)}</h2>\n${body}`).join("\n")}
+</body>
+</html>
+`;
+}
+
+/** Save generated content as a file through a temporary link */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before freeing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
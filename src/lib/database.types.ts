@@ -14,32 +14,138 @@ export type Database = {
   }
   public: {
     Tables: {
+      islas: {
+        Row: {
+          id: number
+          nombre: string
+          provincia_id: number
+        }
+        Insert: {
+          id?: number
+          nombre: string
+          provincia_id: number
+        }
+        Update: {
+          id?: number
+          nombre?: string
+          provincia_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "islas_provincia_id_fkey"
+            columns: ["provincia_id"]
+            isOneToOne: false
+            referencedRelation: "provincias"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_province_changes: {
+        Row: {
+          changed_at: string
+          from_provincia_id: number | null
+          id: number
+          profile_id: string
+          to_provincia_id: number
+        }
+        Insert: {
+          changed_at?: string
+          from_provincia_id?: number | null
+          id?: never
+          profile_id: string
+          to_provincia_id: number
+        }
+        Update: {
+          changed_at?: string
+          from_provincia_id?: number | null
+          id?: never
+          profile_id?: string
+          to_provincia_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_province_changes_from_provincia_id_fkey"
+            columns: ["from_provincia_id"]
+            isOneToOne: false
+            referencedRelation: "provincias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_province_changes_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_province_changes_to_provincia_id_fkey"
+            columns: ["to_provincia_id"]
+            isOneToOne: false
+            referencedRelation: "provincias"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
+          bio: string | null
+          created_at: string
           full_name: string | null
           id: string
+          identity_synced_at: string | null
+          isla_id: number | null
+          links: string[]
+          municipio_celda: string | null
+          municipio_codigo: string | null
+          overridden_fields: string[]
           provincia_id: number | null
           updated_at: string | null
           username: string | null
+          visibility: Database["public"]["Enums"]["profile_visibility"]
         }
         Insert: {
           avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
           full_name?: string | null
           id: string
+          identity_synced_at?: string | null
+          isla_id?: number | null
+          links?: string[]
+          municipio_celda?: string | null
+          municipio_codigo?: string | null
+          overridden_fields?: string[]
           provincia_id?: number | null
           updated_at?: string | null
           username?: string | null
+          visibility?: Database["public"]["Enums"]["profile_visibility"]
         }
         Update: {
           avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
           full_name?: string | null
           id?: string
+          identity_synced_at?: string | null
+          isla_id?: number | null
+          links?: string[]
+          municipio_celda?: string | null
+          municipio_codigo?: string | null
+          overridden_fields?: string[]
           provincia_id?: number | null
           updated_at?: string | null
           username?: string | null
+          visibility?: Database["public"]["Enums"]["profile_visibility"]
         }
         Relationships: [
+          {
+            foreignKeyName: "profiles_isla_fkey"
+            columns: ["isla_id", "provincia_id"]
+            isOneToOne: false
+            referencedRelation: "islas"
+            referencedColumns: ["id", "provincia_id"]
+          },
           {
             foreignKeyName: "profiles_provincia_id_fkey"
             columns: ["provincia_id"]
@@ -75,10 +181,87 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      anonymous_profile_counts: {
+        Args: never
+        Returns: {
+          isla_id: number | null
+          provincia_id: number
+          total: number
+        }[]
+      }
+      are_web_links: { Args: { links: string[] }; Returns: boolean }
+      community_growth: {
+        Args: never
+        Returns: {
+          joined: number
+          month: string
+          moves: number
+        }[]
+      }
+      community_timeline: {
+        Args: never
+        Returns: {
+          changed_at: string
+          from_provincia_id: number | null
+          profile_id: string | null
+          to_provincia_id: number
+        }[]
+      }
+      delete_my_account: {
+        Args: never
+        Returns: {
+          deleted_at: string
+          user_id: string
+        }[]
+      }
+      profile_municipio: {
+        Args: { profile_id: string }
+        Returns: string
+      }
+      province_member_totals: {
+        Args: never
+        Returns: {
+          provincia_id: number
+          total: number
+        }[]
+      }
+      search_profiles: {
+        Args: { max_results?: number; query: string }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          full_name: string | null
+          id: string
+          identity_synced_at: string | null
+          isla_id: number | null
+          links: string[]
+          municipio_celda: string | null
+          municipio_codigo: string | null
+          overridden_fields: string[]
+          provincia_id: number | null
+          updated_at: string | null
+          username: string | null
+          visibility: Database["public"]["Enums"]["profile_visibility"]
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "profiles"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      sync_profile_identity: {
+        Args: {
+          new_avatar_url: string
+          new_full_name: string
+          new_username: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      profile_visibility: "public" | "members" | "anonymous" | "hidden"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -205,6 +388,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      profile_visibility: ["public", "members", "anonymous", "hidden"],
+    },
   },
 } as const
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fail, ok } from "@/lib/errors";
+
+const { listAll } = vi.hoisted(() => ({ listAll: vi.fn() }));
+vi.mock("@/auth/supabaseClient", () => ({ supabase: {} }));
+vi.mock("@/lib/repositories", () => ({ repositories: { profiles: { listAll } } }));
+
+import { fetchAllProfiles } from "@/lib/db";
+
+beforeEach(() => {
+  listAll.mockReset();
+  vi.useFakeTimers();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/** Run a call to the end, backoff delays included */
+async function settle<T>(pending: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+describe("withRetry", () => {
+  it("retries network failures until a call succeeds", async () => {
+    listAll
+      .mockResolvedValueOnce(fail("network", "Failed to fetch"))
+      .mockResolvedValueOnce(ok([]));
+
+    expect(await settle(fetchAllProfiles())).toEqual(ok([]));
+    expect(listAll).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after three attempts and returns the last failure", async () => {
+    listAll.mockResolvedValue(fail("network", "Failed to fetch"));
+
+    expect(await settle(fetchAllProfiles())).toMatchObject({
+      ok: false,
+      error: { kind: "network" },
+    });
+    expect(listAll).toHaveBeenCalledTimes(3);
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+
+  it.each(["rate-limited", "auth", "rls-denied", "validation"] as const)(
+    "doesn't retry %s failures",
+    async (kind) => {
+      listAll.mockResolvedValue(fail(kind, "No"));
+
+      expect(await settle(fetchAllProfiles())).toMatchObject({
+        ok: false,
+        error: { kind },
+      });
+      expect(listAll).toHaveBeenCalledOnce();
+    },
+  );
+});
@@ -1,114 +1,228 @@
 import { supabase } from "@/auth/supabaseClient";
-import type { Tables } from "@/lib/database.types";
-
-/** Profile row inferred from Supabase schema */
-export type Profile = Tables<"profiles">;
-
-/** Provincia row inferred from Supabase schema */
-export type Provincia = Tables<"provincias">;
-
-/** Profile joined with provincia name */
-export type ProfileWithProvince = Profile & {
-  provincias: Pick<Provincia, "nombre"> | null;
-};
-
-/** Fetch all profiles with their province name */
-export async function fetchAllProfiles(): Promise<ProfileWithProvince[]> {
-  const { data, error } = await supabase
-    .from("profiles")
-    .select(
-      "id, full_name, avatar_url, username, provincia_id, updated_at, provincias(nombre)",
-    )
-    .order("updated_at", { ascending: false });
-
-  if (error) {
-    console.error("Error cargando profiles:", error.message);
-    return [];
+import { fail, ok, type Result } from "@/lib/errors";
+import { repositories } from "@/lib/repositories";
+import type {
+  AccountDeletion,
+  AnonymousCount,
+  GrowthPoint,
+  Isla,
+  Profile,
+  ProfileDetails,
+  ProfileIdentity,
+  ProfileLocation,
+  ProfileVisibility,
+  ProfileWithProvince,
+  ProvinceChange,
+  ProvinceTotal,
+  Provincia,
+  TimelineEvent,
+} from "@/lib/repositories/types";
+
+export type {
+  AccountDeletion,
+  AnonymousCount,
+  GrowthPoint,
+  Isla,
+  Profile,
+  ProfileDetails,
+  ProfileIdentity,
+  ProfileLocation,
+  ProfileVisibility,
+  ProfileWithProvince,
+  ProvinceChange,
+  ProvinceTotal,
+  Provincia,
+  SyncedField,
+  TimelineEvent,
+} from "@/lib/repositories/types";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 400;
+
+/**
+ * Run a data call, retrying transient failures with exponential backoff
+ * and jitter. The last failure is logged and returned as is.
+ */
+async function withRetry<T>(
+  label: string,
+  call: () => Promise<Result<T>>,
+): Promise<Result<T>> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await call();
+    if (result.ok) return result;
+    if (!result.error.transient || attempt >= MAX_ATTEMPTS) {
+      console.error(`Error ${label}:`, result.error.message);
+      return result;
+    }
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random());
+    await new Promise((resolve) => setTimeout(resolve, delay));
   }
+}
 
-  // Supabase returns FK joins as arrays; normalize to single object
-  return ((data ?? []) as unknown as ProfileWithProvince[]).map((p) => ({
-    ...p,
-    provincias: Array.isArray(p.provincias)
-      ? (p.provincias[0] ?? null)
-      : p.provincias,
-  }));
-}
-
-/** Fetch current user's profile */
-export async function fetchMyProfile(userId: string): Promise<Profile | null> {
-  const { data, error } = await supabase
-    .from("profiles")
-    .select("*")
-    .eq("id", userId)
-    .single();
-
-  if (error) {
-    console.error("Error cargando perfil:", error.message);
-    return null;
-  }
-  return data;
-}
-
-/** Fetch province ID by name */
-export async function fetchProvinciaIdByName(
-  nombre: string,
-): Promise<number | null> {
-  const { data, error } = await supabase
-    .from("provincias")
-    .select("id")
-    .eq("nombre", nombre)
-    .single();
-
-  if (error) {
-    console.error("Error buscando provincia:", error.message);
-    return null;
-  }
-  return data?.id ?? null;
+/** Fetch all profiles with their province name and code */
+export function fetchAllProfiles(): Promise<Result<ProfileWithProvince[]>> {
+  return withRetry("cargando profiles", () => repositories.profiles.listAll());
 }
 
-/** Upsert province for current user */
-export async function setUserProvince(
-  userId: string,
+/** Fetch the latest sign-ups the viewer can see */
+export function fetchNewestProfiles(
+  maxResults: number,
+): Promise<Result<ProfileWithProvince[]>> {
+  return withRetry("cargando nuevos miembros", () =>
+    repositories.profiles.listNewest(maxResults),
+  );
+}
+
+/** Fetch the profiles located in one province */
+export function fetchProfilesByProvince(
   provinciaId: number,
-): Promise<{ success: boolean; error?: string }> {
-  const { error } = await supabase
-    .from("profiles")
-    .update({ provincia_id: provinciaId, updated_at: new Date().toISOString() })
-    .eq("id", userId);
-
-  if (error) {
-    return { success: false, error: error.message };
-  }
-  return { success: true };
+): Promise<Result<ProfileWithProvince[]>> {
+  return withRetry("cargando profiles", () =>
+    repositories.profiles.listByProvince(provinciaId),
+  );
+}
+
+/** Fetch a profile by X username, case-insensitively; null when there's none */
+export function fetchProfileByUsername(
+  username: string,
+): Promise<Result<ProfileWithProvince | null>> {
+  return withRetry("cargando perfil", () =>
+    repositories.profiles.findByUsername(username),
+  );
 }
 
-/** Delete current user's profile row and sign out */
-export async function deleteMyAccount(): Promise<{
-  success: boolean;
-  error?: string;
-}> {
+/** Search members by name or username: prefix match, accent-insensitive */
+export function searchProfiles(
+  query: string,
+  maxResults = 8,
+): Promise<Result<ProfileWithProvince[]>> {
+  return withRetry("buscando miembros", () =>
+    repositories.profiles.search(query, maxResults),
+  );
+}
+
+/** Fetch current user's profile; null before the row exists */
+export function fetchMyProfile(userId: string): Promise<Result<Profile | null>> {
+  return withRetry("cargando perfil", () => repositories.profiles.findById(userId));
+}
+
+/** Fetch every province row */
+export function fetchProvincias(): Promise<Result<Provincia[]>> {
+  return withRetry("cargando provincias", () => repositories.provinces.listAll());
+}
+
+/** Fetch a province row by INE code */
+export function fetchProvinciaByCode(
+  codigoIne: string,
+): Promise<Result<Provincia | null>> {
+  return withRetry("buscando provincia", () =>
+    repositories.provinces.findByCode(codigoIne),
+  );
+}
+
+/** Fetch province ID by INE code */
+export async function fetchProvinciaIdByCode(
+  codigoIne: string,
+): Promise<Result<number | null>> {
+  const result = await fetchProvinciaByCode(codigoIne);
+  return result.ok ? ok(result.data?.id ?? null) : result;
+}
+
+/** Fetch the islands of the archipelago provinces */
+export function fetchIslas(): Promise<Result<Isla[]>> {
+  return withRetry("cargando islas", () => repositories.provinces.listIslands());
+}
+
+/** Save province, island and municipality for current user */
+export function setUserLocation(
+  userId: string,
+  location: ProfileLocation,
+): Promise<Result<void>> {
+  return withRetry("guardando ubicación", () =>
+    repositories.profiles.setLocation(userId, location),
+  );
+}
+
+/** Change who can see the current user on the map */
+export function setProfileVisibility(
+  userId: string,
+  visibility: ProfileVisibility,
+): Promise<Result<void>> {
+  return withRetry("guardando visibilidad", () =>
+    repositories.profiles.setVisibility(userId, visibility),
+  );
+}
+
+/** Save the name, username, bio and links the user edited */
+export function updateProfileDetails(
+  userId: string,
+  details: ProfileDetails,
+): Promise<Result<void>> {
+  return withRetry("guardando perfil", () =>
+    repositories.profiles.updateDetails(userId, details),
+  );
+}
+
+/** Refresh name, avatar and username from the X identity after sign-in */
+export function syncProfileIdentity(
+  userId: string,
+  identity: ProfileIdentity,
+): Promise<Result<void>> {
+  return withRetry("sincronizando perfil", () =>
+    repositories.profiles.syncIdentity(userId, identity),
+  );
+}
+
+/** Fetch the current user's province history, oldest first */
+export function fetchProvinceChanges(userId: string): Promise<Result<ProvinceChange[]>> {
+  return withRetry("cargando historial de provincias", () =>
+    repositories.profiles.listProvinceChanges(userId),
+  );
+}
+
+/** Counts of members the viewer can't see but who still show in totals */
+export function fetchAnonymousCounts(): Promise<Result<AnonymousCount[]>> {
+  return withRetry("cargando miembros anónimos", () =>
+    repositories.profiles.countAnonymous(),
+  );
+}
+
+/** Fetch how many members each province has, hidden ones aside */
+export function fetchProvinceTotals(): Promise<Result<ProvinceTotal[]>> {
+  return withRetry("cargando estadísticas", () => repositories.stats.provinceTotals());
+}
+
+/** Fetch sign-ups and moves per month */
+export function fetchCommunityGrowth(): Promise<Result<GrowthPoint[]>> {
+  return withRetry("cargando estadísticas", () => repositories.stats.growth());
+}
+
+/** Fetch every placement and move, to replay the map over time */
+export function fetchCommunityTimeline(): Promise<Result<TimelineEvent[]>> {
+  return withRetry("cargando la evolución del mapa", () => repositories.stats.timeline());
+}
+
+/**
+ * Delete the current user's account for good: the auth user with its X
+ * identity and every row about them. Then sign out locally.
+ */
+export async function deleteMyAccount(): Promise<Result<AccountDeletion>> {
   // Get current user
   const {
     data: { user },
   } = await supabase.auth.getUser();
 
   if (!user) {
-    return { success: false, error: "No hay sesión activa" };
+    return fail("auth", "No hay sesión activa");
   }
 
-  // Delete profile row (cascade or RLS should handle related data)
-  const { error: profileError } = await supabase
-    .from("profiles")
-    .delete()
-    .eq("id", user.id);
-
-  if (profileError) {
-    return { success: false, error: profileError.message };
-  }
+  const result = await withRetry("eliminando cuenta", () =>
+    repositories.accounts.deleteAccount(user.id),
+  );
+  if (!result.ok) return result;
 
-  // Sign out to clear session
-  await supabase.auth.signOut();
+  // The server session went with the user; only the local one is left
+  await supabase.auth.signOut({ scope: "local" });
 
-  return { success: true };
+  return result;
 }
@@ -0,0 +1,58 @@
+/** Why a data call failed, as far as the UI needs to know */
+export type DataErrorKind =
+  | "network"
+  | "auth"
+  | "rls-denied"
+  | "not-found"
+  | "validation"
+  | "conflict"
+  | "rate-limited";
+
+/** Failure from the data layer; `message` is the technical detail */
+export class DataError extends Error {
+  readonly kind: DataErrorKind;
+
+  constructor(kind: DataErrorKind, message: string) {
+    super(message);
+    this.name = "DataError";
+    this.kind = kind;
+  }
+
+  /** Worth retrying: the same call may succeed a moment later */
+  get transient(): boolean {
+    return this.kind === "network";
+  }
+}
+
+export type Result<T> = { ok: true; data: T } | { ok: false; error: DataError };
+
+export function ok<T>(data: T): Result<T> {
+  return { ok: true, data };
+}
+
+export function fail<T = never>(kind: DataErrorKind, message: string): Result<T> {
+  return { ok: false, error: new DataError(kind, message) };
+}
+
+/** Data or throw, for callers that handle errors by exception (queries) */
+export function unwrap<T>(result: Result<T>): T {
+  if (!result.ok) throw result.error;
+  return result.data;
+}
+
+/** User-facing explanation for each kind of failure */
+export const DATA_ERROR_MESSAGES: Record<DataErrorKind, string> = {
+  network: "No se pudo conectar con el servidor.",
+  auth: "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+  "rls-denied": "No tienes permiso para hacer esto.",
+  "not-found": "No se encontró lo que buscabas.",
+  validation: "Los datos enviados no son válidos.",
+  conflict: "Ese valor ya está en uso.",
+  "rate-limited": "Has hecho demasiados cambios seguidos. Espera un poco y vuelve a intentarlo.",
+};
+
+/** User-facing text for any thrown value */
+export function describeError(error: unknown): string {
+  if (error instanceof DataError) return DATA_ERROR_MESSAGES[error.kind];
+  return error instanceof Error ? error.message : "Error desconocido";
+}
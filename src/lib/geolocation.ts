@@ -0,0 +1,40 @@
+import type { LatLngTuple } from "@/lib/clustering";
+
+/** Wait at most this long for a fix before giving up */
+const POSITION_TIMEOUT_MS = 10_000;
+/** A fix from the last few minutes is good enough to pick a province */
+const POSITION_MAX_AGE_MS = 5 * 60 * 1000;
+
+const POSITION_ERROR_MESSAGES: Record<number, string> = {
+  1: "No has dado permiso para usar tu ubicación",
+  2: "No se pudo determinar tu ubicación",
+  3: "La ubicación ha tardado demasiado, inténtalo de nuevo",
+};
+
+/**
+ * Ask the browser for the current position once. Province accuracy is all
+ * that's needed, so the coarse, cheaper fix is requested. Rejects with a
+ * message ready to show to the user.
+ */
+export function readCurrentPosition(): Promise<LatLngTuple> {
+  return new Promise((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Tu navegador no permite obtener la ubicación"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve([coords.latitude, coords.longitude]),
+      (error) =>
+        reject(
+          new Error(
+            POSITION_ERROR_MESSAGES[error.code] ?? "No se pudo determinar tu ubicación",
+          ),
+        ),
+      {
+        enableHighAccuracy: false,
+        timeout: POSITION_TIMEOUT_MS,
+        maximumAge: POSITION_MAX_AGE_MS,
+      },
+    );
+  });
+}
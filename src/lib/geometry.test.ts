@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import spainProvinces from "@/assets/geo/spain-provinces.v1.json";
+import {
+  featureArea,
+  featureCentroid,
+  featureLabelPoint,
+  geodesicRingArea,
+  labelPoint,
+  largestPolygon,
+  pointInFeature,
+  pointInPolygon,
+  polygonArea,
+  polygonCentroid,
+  ringArea,
+} from "@/lib/geometry";
+import { getProvinceCode } from "@/lib/provinces";
+
+const square = (x: number, y: number, size: number): Position[] => [
+  [x, y],
+  [x + size, y],
+  [x + size, y + size],
+  [x, y + size],
+  [x, y],
+];
+
+/** 3×3 "C" opening to the east: its centroid sits in the gap */
+const cShape: Position[] = [
+  [0, 0],
+  [3, 0],
+  [3, 1],
+  [1, 1],
+  [1, 2],
+  [3, 2],
+  [3, 3],
+  [0, 3],
+  [0, 0],
+];
+
+const provinces = spainProvinces as FeatureCollection;
+
+function provinceFeature(codigo: string): Feature<Geometry> {
+  const feature = provinces.features.find((f) => getProvinceCode(f) === codigo);
+  if (!feature) throw new Error(`Missing province ${codigo}`);
+  return feature;
+}
+
+describe("ringArea", () => {
+  it("is positive counter-clockwise and negative clockwise", () => {
+    expect(ringArea(square(0, 0, 2))).toBe(4);
+    expect(ringArea([...square(0, 0, 2)].reverse())).toBe(-4);
+  });
+});
+
+describe("polygonArea", () => {
+  it("matches the spherical area of a 1° cell at the equator", () => {
+    expect(polygonArea([square(0, 0, 1)])).toBeCloseTo(12391, 0);
+  });
+
+  it("subtracts holes", () => {
+    const outer = square(0, 0, 1);
+    const hole = square(0.25, 0.25, 0.5);
+    expect(polygonArea([outer, hole])).toBeCloseTo(
+      (geodesicRingArea(outer) - geodesicRingArea(hole)) / 1e6,
+    );
+  });
+
+  it("is close to the official INE area of real provinces", () => {
+    // km², INE
+    const official: Record<string, number> = {
+      "28": 8028,
+      "11": 7436,
+      "33": 10602,
+      "36": 4495,
+    };
+    for (const [codigo, area] of Object.entries(official)) {
+      const measured = featureArea(provinceFeature(codigo));
+      expect(Math.abs(measured - area) / area).toBeLessThan(0.01);
+    }
+  });
+});
+
+describe("polygonCentroid", () => {
+  it("weights by area rather than by vertex", () => {
+    // Extra vertices along the bottom edge would pull a vertex average down
+    const dense: Position[] = [
+      [0, 0],
+      [0.5, 0],
+      [1, 0],
+      [1.5, 0],
+      [2, 0],
+      [2, 2],
+      [0, 2],
+      [0, 0],
+    ];
+    expect(polygonCentroid([dense])).toEqual([1, 1]);
+  });
+
+  it("accounts for holes", () => {
+    const [x, y] = polygonCentroid([square(0, 0, 4), square(0, 0, 2)]);
+    expect(x).toBeCloseTo(28 / 12);
+    expect(y).toBeCloseTo(28 / 12);
+  });
+
+  it("can fall outside a concave polygon", () => {
+    expect(pointInPolygon(polygonCentroid([cShape]), [cShape])).toBe(false);
+  });
+});
+
+describe("pointInPolygon", () => {
+  const donut = [square(0, 0, 4), square(1, 1, 2)];
+
+  it("is true inside the outer ring", () => {
+    expect(pointInPolygon([0.5, 0.5], donut)).toBe(true);
+  });
+
+  it("is false inside a hole and outside", () => {
+    expect(pointInPolygon([2, 2], donut)).toBe(false);
+    expect(pointInPolygon([5, 5], donut)).toBe(false);
+  });
+
+  it("checks every polygon of a feature", () => {
+    const feature: Feature<Geometry> = {
+      type: "Feature",
+      properties: {},
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: [[square(0, 0, 1)], [square(5, 5, 1)]],
+      },
+    };
+    expect(pointInFeature([5.5, 5.5], feature)).toBe(true);
+    expect(pointInFeature([3, 3], feature)).toBe(false);
+  });
+});
+
+describe("labelPoint", () => {
+  it("finds the centre of a square", () => {
+    const [x, y] = labelPoint([square(0, 0, 2)], 0.001);
+    expect(x).toBeCloseTo(1, 2);
+    expect(y).toBeCloseTo(1, 2);
+  });
+
+  it("stays inside concave polygons", () => {
+    expect(pointInPolygon(labelPoint([cShape]), [cShape])).toBe(true);
+  });
+
+  it("avoids holes", () => {
+    const donut = [square(0, 0, 4), square(1, 1, 2)];
+    expect(pointInPolygon(labelPoint(donut), donut)).toBe(true);
+  });
+
+  it("lands inside every bundled province", () => {
+    for (const feature of provinces.features) {
+      const label = featureLabelPoint(feature);
+      expect(label, getProvinceCode(feature) ?? "").not.toBeNull();
+      expect(pointInFeature(label!, feature), getProvinceCode(feature) ?? "").toBe(true);
+    }
+  });
+});
+
+describe("largestPolygon", () => {
+  it("picks Mallorca in Illes Balears", () => {
+    const balears = provinceFeature("07");
+    const rings = largestPolygon(balears)!;
+    const [lng, lat] = featureCentroid({
+      type: "Feature",
+      properties: {},
+      geometry: { type: "Polygon", coordinates: rings },
+    });
+    expect(lng).toBeGreaterThan(2.3);
+    expect(lng).toBeLessThan(3.5);
+    expect(lat).toBeGreaterThan(39.2);
+    expect(lat).toBeLessThan(40);
+  });
+});
@@ -0,0 +1,317 @@
+import type { Feature, Geometry, Position } from "geojson";
+
+/**
+ * Planar and geodesic helpers for GeoJSON polygons. Positions are GeoJSON
+ * [lng, lat]; a polygon is its outer ring followed by its holes.
+ */
+
+type PolygonRings = Position[][];
+
+/** WGS84 equatorial radius in metres, the sphere used for areas */
+const EARTH_RADIUS_M = 6378137;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Polygons of a feature, empty for non-areal geometry */
+export function featurePolygons(feature: Feature<Geometry>): PolygonRings[] {
+  if (feature.geometry.type === "Polygon") return [feature.geometry.coordinates];
+  if (feature.geometry.type === "MultiPolygon") return feature.geometry.coordinates;
+  return [];
+}
+
+/** [lat, lng] for Leaflet */
+export function toLatLng(position: Position): [number, number] {
+  return [position[1], position[0]];
+}
+
+/** [minLng, minLat, maxLng, maxLat] */
+export function ringBounds(ring: Position[]): [number, number, number, number] {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of ring) {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  return [minX, minY, maxX, maxY];
+}
+
+/** Signed shoelace area in squared degrees, positive when counter-clockwise */
+export function ringArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+}
+
+/** Area on the sphere in square metres, regardless of winding */
+export function geodesicRingArea(ring: Position[]): number {
+  const n = ring.length;
+  if (n <= 2) return 0;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const lower = ring[i];
+    const middle = ring[(i + 1) % n];
+    const upper = ring[(i + 2) % n];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+/** True area of a polygon in km², holes subtracted */
+export function polygonArea(rings: PolygonRings): number {
+  const [outer, ...holes] = rings;
+  if (!outer) return 0;
+  const m2 =
+    geodesicRingArea(outer) -
+    holes.reduce((sum, hole) => sum + geodesicRingArea(hole), 0);
+  return m2 / 1e6;
+}
+
+/** True area of a feature in km² */
+export function featureArea(feature: Feature<Geometry>): number {
+  return featurePolygons(feature).reduce((sum, rings) => sum + polygonArea(rings), 0);
+}
+
+/** Area and area-weighted centroid of one ring, vertex mean when degenerate */
+function ringMoments(ring: Position[]): { area: number; x: number; y: number } {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  area /= 2;
+  if (area === 0) {
+    const count = Math.max(ring.length, 1);
+    return {
+      area: 0,
+      x: ring.reduce((sum, p) => sum + p[0], 0) / count,
+      y: ring.reduce((sum, p) => sum + p[1], 0) / count,
+    };
+  }
+  return { area: Math.abs(area), x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+/** Weighted mean of centroids; negative weights cut holes */
+function combineCentroids(parts: { area: number; x: number; y: number }[]): Position {
+  const total = parts.reduce((sum, p) => sum + p.area, 0);
+  if (total === 0) return parts.length > 0 ? [parts[0].x, parts[0].y] : [0, 0];
+  return [
+    parts.reduce((sum, p) => sum + p.x * p.area, 0) / total,
+    parts.reduce((sum, p) => sum + p.y * p.area, 0) / total,
+  ];
+}
+
+/** Area-weighted centroid of a polygon; may fall outside concave shapes */
+export function polygonCentroid(rings: PolygonRings): Position {
+  const [outer, ...holes] = rings;
+  if (!outer) return [0, 0];
+  const outerMoments = ringMoments(outer);
+  const holeMoments = holes.map(ringMoments).map((m) => ({ ...m, area: -m.area }));
+  return combineCentroids([outerMoments, ...holeMoments]);
+}
+
+/** Area-weighted centroid of all the polygons of a feature */
+export function featureCentroid(feature: Feature<Geometry>): Position {
+  return combineCentroids(
+    featurePolygons(feature).map((rings) => {
+      const [x, y] = polygonCentroid(rings);
+      return { area: polygonArea(rings), x, y };
+    }),
+  );
+}
+
+/** Even-odd ray casting test */
+export function pointInRing(point: Position, ring: Position[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Inside the outer ring and outside every hole */
+export function pointInPolygon(point: Position, rings: PolygonRings): boolean {
+  const [outer, ...holes] = rings;
+  if (!outer || !pointInRing(point, outer)) return false;
+  return !holes.some((hole) => pointInRing(point, hole));
+}
+
+export function pointInFeature(point: Position, feature: Feature<Geometry>): boolean {
+  return featurePolygons(feature).some((rings) => pointInPolygon(point, rings));
+}
+
+/** A feature's largest polygon by true area, null for non-areal geometry */
+export function largestPolygon(feature: Feature<Geometry>): PolygonRings | null {
+  let best: PolygonRings | null = null;
+  let bestArea = -1;
+  for (const rings of featurePolygons(feature)) {
+    const area = polygonArea(rings);
+    if (area > bestArea) {
+      best = rings;
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+/** Signed distance from a point to the polygon outline, positive inside */
+function signedDistance(x: number, y: number, rings: PolygonRings): number {
+  let inside = false;
+  let minDistSq = Infinity;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = ring[i];
+      const [bx, by] = ring[j];
+      if (ay > y !== by > y && x < ((bx - ax) * (y - ay)) / (by - ay) + ax) {
+        inside = !inside;
+      }
+      minDistSq = Math.min(minDistSq, segmentDistanceSq(x, y, ax, ay, bx, by));
+    }
+  }
+  return (inside ? 1 : -1) * Math.sqrt(minDistSq);
+}
+
+function segmentDistanceSq(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+): number {
+  let x = ax;
+  let y = ay;
+  let dx = bx - x;
+  let dy = by - y;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - x) * dx + (py - y) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      x = bx;
+      y = by;
+    } else if (t > 0) {
+      x += dx * t;
+      y += dy * t;
+    }
+  }
+  dx = px - x;
+  dy = py - y;
+  return dx * dx + dy * dy;
+}
+
+type Cell = { x: number; y: number; half: number; distance: number; max: number };
+
+function makeCell(x: number, y: number, half: number, rings: PolygonRings): Cell {
+  const distance = signedDistance(x, y, rings);
+  return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+}
+
+/** Max-heap of cells by the best distance they could still contain */
+class CellQueue {
+  private items: Cell[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(cell: Cell) {
+    const items = this.items;
+    items.push(cell);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].max >= items[i].max) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): Cell | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < items.length && items[left].max > items[largest].max) largest = left;
+        if (right < items.length && items[right].max > items[largest].max) largest = right;
+        if (largest === i) break;
+        [items[largest], items[i]] = [items[i], items[largest]];
+        i = largest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Pole of inaccessibility: the interior point farthest from the outline,
+ * always inside the polygon, unlike the centroid. Search runs on a plane
+ * with longitudes scaled by cos(latitude); `precision` is in degrees.
+ */
+export function labelPoint(rings: PolygonRings, precision = 0.005): Position {
+  const outer = rings[0];
+  if (!outer || outer.length === 0) return [0, 0];
+
+  const [minLng, minLat, maxLng, maxLat] = ringBounds(outer);
+  const scale = Math.cos(toRadians((minLat + maxLat) / 2));
+  const projected = rings.map((ring) => ring.map(([lng, lat]) => [lng * scale, lat]));
+  const minX = minLng * scale;
+  const maxX = maxLng * scale;
+  const width = maxX - minX;
+  const height = maxLat - minLat;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) return [minLng, minLat];
+
+  const queue = new CellQueue();
+  let half = cellSize / 2;
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minLat; y < maxLat; y += cellSize) {
+      queue.push(makeCell(x + half, y + half, half, projected));
+    }
+  }
+
+  // Seed with the centroid, usually close to the answer for convex shapes
+  const [cx, cy] = polygonCentroid(projected);
+  let best = makeCell(cx, cy, 0, projected);
+  const boxCenter = makeCell(minX + width / 2, minLat + height / 2, 0, projected);
+  if (boxCenter.distance > best.distance) best = boxCenter;
+
+  while (queue.size > 0) {
+    const cell = queue.pop()!;
+    if (cell.distance > best.distance) best = cell;
+    if (cell.max - best.distance <= precision) continue;
+    half = cell.half / 2;
+    queue.push(makeCell(cell.x - half, cell.y - half, half, projected));
+    queue.push(makeCell(cell.x + half, cell.y - half, half, projected));
+    queue.push(makeCell(cell.x - half, cell.y + half, half, projected));
+    queue.push(makeCell(cell.x + half, cell.y + half, half, projected));
+  }
+
+  return [best.x / scale, best.y];
+}
+
+/** Label point of a feature's largest polygon */
+export function featureLabelPoint(feature: Feature<Geometry>): Position | null {
+  const rings = largestPolygon(feature);
+  return rings ? labelPoint(rings) : null;
+}
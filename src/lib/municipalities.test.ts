@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  municipalityCell,
+  parseMunicipalityCell,
+  searchMunicipalities,
+  snapToGrid,
+  type Municipality,
+} from "@/lib/municipalities";
+
+const municipalities: Municipality[] = [
+  { codigo: "28079", nombre: "Madrid", lat: 40.4, lng: -3.68 },
+  { codigo: "28005", nombre: "Alcalá de Henares", lat: 40.49, lng: -3.37 },
+  { codigo: "28141", nombre: "Valdemorillo", lat: 40.5, lng: -4.07 },
+  { codigo: "28115", nombre: "Majadahonda", lat: 40.47, lng: -3.87 },
+  { codigo: "08019", nombre: "Barcelona", lat: 41.39, lng: 2.17 },
+  { codigo: "08307", nombre: "Vilanova i la Geltrú", lat: 41.22, lng: 1.72 },
+  { codigo: "46250", nombre: "València", lat: 39.47, lng: -0.38 },
+  { codigo: "35016", nombre: "Las Palmas de Gran Canaria", lat: 28.1, lng: -15.43 },
+];
+
+describe("snapToGrid", () => {
+  it("moves a point to the centre of its cell", () => {
+    expect(snapToGrid([40.4168, -3.7038])).toEqual([40.425, -3.725]);
+  });
+
+  it("gives neighbouring points in one cell the same centre", () => {
+    expect(snapToGrid([40.401, -3.699])).toEqual(snapToGrid([40.449, -3.651]));
+    expect(snapToGrid([40.449, -3.651])).not.toEqual(snapToGrid([40.451, -3.651]));
+  });
+
+  it("keeps negative coordinates in their own cell", () => {
+    expect(snapToGrid([28.1, -15.43])).toEqual([28.125, -15.425]);
+  });
+
+  it("takes another cell size", () => {
+    expect(snapToGrid([40.4168, -3.7038], 1)).toEqual([40.5, -3.5]);
+  });
+});
+
+describe("municipality cells", () => {
+  it("round-trips a municipality's cell", () => {
+    const cell = municipalityCell(municipalities[0]);
+
+    expect(cell).toBe("40.425,-3.675");
+    expect(parseMunicipalityCell(cell)).toEqual([40.425, -3.675]);
+  });
+
+  it("reads nothing from a missing or malformed cell", () => {
+    for (const value of [null, "", "40.4", "a,b"]) {
+      expect(parseMunicipalityCell(value)).toBeNull();
+    }
+  });
+});
+
+describe("searchMunicipalities", () => {
+  const names = (query: string, options?: Parameters<typeof searchMunicipalities>[2]) =>
+    searchMunicipalities(municipalities, query, options).map((m) => m.nombre);
+
+  it("puts names starting with the query before later words", () => {
+    expect(names("la")).toEqual(["Las Palmas de Gran Canaria", "Vilanova i la Geltrú"]);
+  });
+
+  it("ignores case and accents", () => {
+    expect(names("VALENCIA")).toEqual(["València"]);
+    expect(names("alcala")).toEqual(["Alcalá de Henares"]);
+  });
+
+  it("matches any word of the name", () => {
+    expect(names("geltru")).toEqual(["Vilanova i la Geltrú"]);
+    expect(names("gran")).toEqual(["Las Palmas de Gran Canaria"]);
+  });
+
+  it("keeps to a province and a limit", () => {
+    expect(names("v", { provinceCode: "28" })).toEqual(["Valdemorillo"]);
+    expect(names("ma", { limit: 1 })).toEqual(["Madrid"]);
+  });
+
+  it("finds nothing for an empty query", () => {
+    expect(names("  ")).toEqual([]);
+  });
+});
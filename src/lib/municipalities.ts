@@ -0,0 +1,126 @@
+import { islandAt } from "@/lib/provinces";
+import { normalizeText } from "@/lib/utils";
+import type { LatLngTuple } from "@/lib/clustering";
+
+/** Version of the bundled municipality list; bump it when regenerating the file */
+export const MUNICIPALITIES_VERSION = "v1";
+
+/**
+ * Lowest zoom where members are drawn at their municipality. Below it they
+ * stay spread over their province, as if no municipality had been chosen.
+ */
+export const MUNICIPALITY_MIN_ZOOM = 10;
+
+/**
+ * Size in degrees of the grid municipality positions are snapped to, about
+ * 5 km. Small towns share a cell with their neighbours, so a marker never
+ * points at one village.
+ */
+export const MUNICIPALITY_GRID_DEG = 0.05;
+
+/** One INE municipality */
+export interface Municipality {
+  /** Five-digit INE code; the first two digits are the province code */
+  codigo: string;
+  nombre: string;
+  /** Centroid of the municipality's largest polygon */
+  lat: number;
+  lng: number;
+}
+
+/** [INE code, name, lat, lng], as stored in the bundled asset */
+type MunicipalityRow = [string, string, number, number];
+
+let municipalitiesPromise: Promise<Municipality[]> | null = null;
+
+/**
+ * Every municipality, ordered by INE code.
+ * Source: IGN via es-atlas (CC BY 4.0), centroids rounded to 3 decimals.
+ * Loaded as a separate chunk, only once something needs it.
+ */
+export function loadMunicipalities(): Promise<Municipality[]> {
+  if (!municipalitiesPromise) {
+    municipalitiesPromise = import("@/assets/geo/spain-municipalities.v1.json").then(
+      (mod) =>
+        (mod.default as MunicipalityRow[]).map(([codigo, nombre, lat, lng]) => ({
+          codigo,
+          nombre,
+          lat,
+          lng,
+        })),
+    );
+    // Forget failed loads so the next call can retry
+    municipalitiesPromise.catch(() => {
+      municipalitiesPromise = null;
+    });
+  }
+  return municipalitiesPromise;
+}
+
+/** INE province code a municipality belongs to */
+export function municipalityProvinceCode(codigo: string): string {
+  return codigo.slice(0, 2);
+}
+
+/** Island a municipality of Baleares or Canarias lies on, null elsewhere */
+export function municipalityIsland(municipality: Municipality): string | null {
+  return islandAt(
+    municipalityProvinceCode(municipality.codigo),
+    municipality.lat,
+    municipality.lng,
+  );
+}
+
+/**
+ * Municipalities matching a query on any word of the name, ignoring case
+ * and accents. Names starting with the query come first.
+ */
+export function searchMunicipalities(
+  municipalities: Municipality[],
+  query: string,
+  { provinceCode, limit = 20 }: { provinceCode?: string | null; limit?: number } = {},
+): Municipality[] {
+  const needle = normalizeText(query);
+  if (!needle) return [];
+
+  const ranked: [number, Municipality][] = [];
+  for (const m of municipalities) {
+    if (provinceCode && municipalityProvinceCode(m.codigo) !== provinceCode) continue;
+    const name = normalizeText(m.nombre);
+    if (name.startsWith(needle)) ranked.push([0, m]);
+    else if (name.split(/[\s/'-]+/).some((word) => word.startsWith(needle))) {
+      ranked.push([1, m]);
+    }
+  }
+  return ranked
+    .sort(([a, m], [b, n]) => a - b || m.nombre.localeCompare(n.nombre, "es"))
+    .slice(0, limit)
+    .map(([, m]) => m);
+}
+
+/** Centre of the grid cell a point falls in */
+export function snapToGrid(
+  [lat, lng]: LatLngTuple,
+  step = MUNICIPALITY_GRID_DEG,
+): LatLngTuple {
+  // The nudge keeps points on a cell's lower edge in that cell despite
+  // float division, e.g. 40.4 / 0.05 = 7.999…
+  const snap = (value: number) =>
+    Number(((Math.floor(value / step + 1e-9) + 0.5) * step).toFixed(6));
+  return [snap(lat), snap(lng)];
+}
+
+/**
+ * A municipality's grid cell as stored in `profiles.municipio_celda`,
+ * "lat,lng". Other members only ever read this, never the municipality.
+ */
+export function municipalityCell(municipality: Municipality): string {
+  return snapToGrid([municipality.lat, municipality.lng]).join(",");
+}
+
+/** `municipio_celda` back to a position; null when missing or malformed */
+export function parseMunicipalityCell(value: string | null): LatLngTuple | null {
+  if (!value) return null;
+  const [lat, lng] = value.split(",").map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lat, lng] : null;
+}
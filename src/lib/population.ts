@@ -0,0 +1,72 @@
+/**
+ * Resident population per province INE code.
+ * Source: INE, Cifras Oficiales de Población (Padrón a 1 de enero de 2023),
+ * rounded to the nearest thousand.
+ */
+export const PROVINCE_POPULATION: Record<string, number> = {
+  "01": 335_000, // Araba/Álava
+  "02": 386_000, // Albacete
+  "03": 1_952_000, // Alicante
+  "04": 746_000, // Almería
+  "05": 158_000, // Ávila
+  "06": 668_000, // Badajoz
+  "07": 1_210_000, // Illes Balears
+  "08": 5_715_000, // Barcelona
+  "09": 356_000, // Burgos
+  "10": 390_000, // Cáceres
+  "11": 1_246_000, // Cádiz
+  "12": 590_000, // Castellón
+  "13": 492_000, // Ciudad Real
+  "14": 772_000, // Córdoba
+  "15": 1_124_000, // A Coruña
+  "16": 195_000, // Cuenca
+  "17": 796_000, // Girona
+  "18": 930_000, // Granada
+  "19": 268_000, // Guadalajara
+  "20": 727_000, // Gipuzkoa
+  "21": 528_000, // Huelva
+  "22": 225_000, // Huesca
+  "23": 620_000, // Jaén
+  "24": 450_000, // León
+  "25": 443_000, // Lleida
+  "26": 320_000, // La Rioja
+  "27": 325_000, // Lugo
+  "28": 6_872_000, // Madrid
+  "29": 1_718_000, // Málaga
+  "30": 1_552_000, // Murcia
+  "31": 672_000, // Navarra
+  "32": 305_000, // Ourense
+  "33": 1_006_000, // Asturias
+  "34": 159_000, // Palencia
+  "35": 1_135_000, // Las Palmas
+  "36": 945_000, // Pontevedra
+  "37": 328_000, // Salamanca
+  "38": 1_070_000, // Santa Cruz de Tenerife
+  "39": 588_000, // Cantabria
+  "40": 155_000, // Segovia
+  "41": 1_950_000, // Sevilla
+  "42": 89_000, // Soria
+  "43": 839_000, // Tarragona
+  "44": 134_000, // Teruel
+  "45": 717_000, // Toledo
+  "46": 2_650_000, // Valencia
+  "47": 520_000, // Valladolid
+  "48": 1_155_000, // Bizkaia
+  "49": 166_000, // Zamora
+  "50": 980_000, // Zaragoza
+  "51": 83_000, // Ceuta
+  "52": 85_000, // Melilla
+};
+
+/** Population of a province or of every province mapped to a community */
+export function populationOf(
+  key: string,
+  communityOf?: ReadonlyMap<string, string>,
+): number {
+  if (!communityOf) return PROVINCE_POPULATION[key] ?? 0;
+  let total = 0;
+  for (const [code, community] of communityOf) {
+    if (community === key) total += PROVINCE_POPULATION[code] ?? 0;
+  }
+  return total;
+}
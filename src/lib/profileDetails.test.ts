@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  BIO_MAX_LENGTH,
+  normalizeLink,
+  profileDetailsForm,
+  toProfileDetails,
+  validateProfileDetails,
+  type ProfileDetailsForm,
+} from "@/lib/profileDetails";
+import { FIXTURE_PROFILES } from "@/lib/repositories/fixtures";
+
+const profile = { ...FIXTURE_PROFILES[0], bio: null, links: [], overridden_fields: [] };
+const identity = {
+  full_name: profile.full_name,
+  username: profile.username,
+  avatar_url: profile.avatar_url,
+};
+const form = (changes: Partial<ProfileDetailsForm> = {}) => ({
+  ...profileDetailsForm(profile),
+  ...changes,
+});
+
+describe("normalizeLink", () => {
+  it("assumes https for a link without a scheme", () => {
+    expect(normalizeLink("  example.com/yo ")).toBe("https://example.com/yo");
+    expect(normalizeLink("http://example.com")).toBe("http://example.com/");
+  });
+
+  it("refuses what isn't a web address", () => {
+    expect(normalizeLink("javascript:alert(1)")).toBeNull();
+    expect(normalizeLink("localhost")).toBeNull();
+    expect(normalizeLink("no es un enlace")).toBeNull();
+  });
+});
+
+describe("validateProfileDetails", () => {
+  it("accepts the profile as it is", () => {
+    expect(validateProfileDetails(form())).toEqual({});
+  });
+
+  it("limits the bio, spaces around it aside", () => {
+    const longest = "a".repeat(BIO_MAX_LENGTH);
+    expect(validateProfileDetails(form({ bio: `${longest}a` }))).toEqual({
+      bio: `Máximo ${BIO_MAX_LENGTH} caracteres`,
+    });
+    expect(validateProfileDetails(form({ bio: ` ${longest} ` }))).toEqual({});
+  });
+
+  it("points at the first link that isn't valid", () => {
+    const links = ["", "example.com", "ftp://x.es"];
+    expect(validateProfileDetails(form({ links }))).toEqual({
+      links: "El enlace 3 no es una dirección web válida",
+    });
+  });
+
+  it("requires a name and an X-style username", () => {
+    expect(validateProfileDetails(form({ fullName: " ", username: "con espacios" }))).toEqual({
+      fullName: "Escribe tu nombre",
+      username: "Hasta 15 letras, números o guiones bajos, sin espacios ni tildes",
+    });
+    expect(validateProfileDetails(form({ username: "@valido_1" }))).toEqual({});
+  });
+});
+
+describe("toProfileDetails", () => {
+  it("saves an empty bio as null and drops empty links", () => {
+    const details = toProfileDetails(
+      form({ bio: "   ", links: ["", "example.com", " "] }),
+      profile,
+      identity,
+    );
+    expect(details.bio).toBeNull();
+    expect(details.links).toEqual(["https://example.com/"]);
+  });
+
+  it("stops following X for a field that differs from it, and follows it again", () => {
+    const renamed = toProfileDetails(form({ fullName: "Otro nombre" }), profile, identity);
+    expect(renamed.overridden_fields).toEqual(["full_name"]);
+
+    const back = toProfileDetails(
+      form(),
+      { ...profile, overridden_fields: renamed.overridden_fields },
+      identity,
+    );
+    expect(back.overridden_fields).toEqual([]);
+  });
+
+  it("keeps what was overridden when X didn't send a value", () => {
+    const details = toProfileDetails(
+      form({ fullName: "Otro nombre" }),
+      { ...profile, overridden_fields: ["username"] },
+      null,
+    );
+    expect(details.overridden_fields).toEqual(["username"]);
+  });
+});
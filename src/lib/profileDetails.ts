@@ -0,0 +1,100 @@
+import type { Profile, ProfileDetails, ProfileIdentity } from "@/lib/db";
+
+export const NAME_MAX_LENGTH = 50;
+/** Same rules as an X handle, which is where usernames come from */
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+export const BIO_MAX_LENGTH = 160;
+export const MAX_LINKS = 3;
+
+/** Settings form values, as typed; links has one entry per input */
+export interface ProfileDetailsForm {
+  fullName: string;
+  username: string;
+  bio: string;
+  links: string[];
+}
+
+export type ProfileDetailsErrors = Partial<Record<keyof ProfileDetailsForm, string>>;
+
+export function profileDetailsForm(profile: Profile): ProfileDetailsForm {
+  return {
+    fullName: profile.full_name ?? "",
+    username: profile.username ?? "",
+    bio: profile.bio ?? "",
+    links: Array.from({ length: MAX_LINKS }, (_, i) => profile.links[i] ?? ""),
+  };
+}
+
+/** Accept "example.com" by assuming https; null when it isn't a web address */
+export function normalizeLink(value: string): string | null {
+  const trimmed = value.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    if (!url.hostname.includes(".")) return null;
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/** Messages for the fields that are wrong; empty when the form can be saved */
+export function validateProfileDetails(form: ProfileDetailsForm): ProfileDetailsErrors {
+  const errors: ProfileDetailsErrors = {};
+  const fullName = form.fullName.trim();
+  const username = form.username.trim().replace(/^@/, "");
+
+  if (!fullName) {
+    errors.fullName = "Escribe tu nombre";
+  } else if (fullName.length > NAME_MAX_LENGTH) {
+    errors.fullName = `Máximo ${NAME_MAX_LENGTH} caracteres`;
+  }
+
+  if (!username) {
+    errors.username = "Elige un nombre de usuario";
+  } else if (!USERNAME_PATTERN.test(username)) {
+    errors.username = "Hasta 15 letras, números o guiones bajos, sin espacios ni tildes";
+  }
+
+  if (form.bio.trim().length > BIO_MAX_LENGTH) {
+    errors.bio = `Máximo ${BIO_MAX_LENGTH} caracteres`;
+  }
+
+  const badLink = form.links.findIndex((l) => l.trim() && !normalizeLink(l));
+  if (badLink !== -1) {
+    errors.links = `El enlace ${badLink + 1} no es una dirección web válida`;
+  }
+  return errors;
+}
+
+/**
+ * Trimmed values ready to save; run validateProfileDetails first. A name or
+ * username that differs from the X identity stops following it, and one set
+ * back to X's value follows it again.
+ */
+export function toProfileDetails(
+  form: ProfileDetailsForm,
+  profile: Profile,
+  identity: ProfileIdentity | null,
+): ProfileDetails {
+  const bio = form.bio.trim();
+  const details = {
+    full_name: form.fullName.trim(),
+    username: form.username.trim().replace(/^@/, ""),
+    bio: bio || null,
+    links: form.links
+      .map((l) => (l.trim() ? normalizeLink(l) : null))
+      .filter((l): l is string => l !== null),
+  };
+
+  const overridden = new Set(profile.overridden_fields);
+  for (const field of ["full_name", "username"] as const) {
+    const fromX = identity?.[field];
+    // Without the X value there's nothing to compare against
+    if (!fromX) continue;
+    if (details[field] === fromX) overridden.delete(field);
+    else overridden.add(field);
+  }
+  return { ...details, overridden_fields: [...overridden].sort() };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { countsAsMove, provinceChangeStatus } from "@/lib/provinceChanges";
+
+const now = new Date("2026-10-19T12:00:00.000Z");
+const hoursAgo = (hours: number) => ({
+  changed_at: new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString(),
+});
+
+describe("provinceChangeStatus", () => {
+  it("leaves the first placement free", () => {
+    expect(provinceChangeStatus([hoursAgo(0.1)], now)).toMatchObject({
+      allowed: true,
+      remainingToday: 3,
+    });
+  });
+
+  it("waits for the cooldown after a move", () => {
+    const status = provinceChangeStatus([hoursAgo(30), hoursAgo(0.5)], now);
+    expect(status.allowed).toBe(false);
+    expect(status.availableAt).toEqual(new Date("2026-10-19T12:30:00.000Z"));
+  });
+});
+
+describe("countsAsMove", () => {
+  it("lets a member without a province or history place themselves", () => {
+    expect(countsAsMove(null, "28", [])).toBe(false);
+  });
+
+  it("limits coming back after leaving the map", () => {
+    // No province, but a history: the member left and wants to return
+    const history = [hoursAgo(3), hoursAgo(0.5)];
+    expect(countsAsMove(null, "28", history)).toBe(true);
+    expect(provinceChangeStatus(history, now).allowed).toBe(false);
+  });
+
+  it("limits a move but not staying put", () => {
+    expect(countsAsMove("28", "08", [hoursAgo(5)])).toBe(true);
+    expect(countsAsMove("28", "28", [hoursAgo(5)])).toBe(false);
+    expect(countsAsMove("28", null, [hoursAgo(5)])).toBe(false);
+  });
+});
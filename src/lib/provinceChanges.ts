@@ -0,0 +1,67 @@
+import type { ProvinceChange } from "@/lib/db";
+
+/** Same limits as the profiles_limit_province_changes trigger */
+export const PROVINCE_CHANGE_COOLDOWN_MS = 60 * 60 * 1000;
+export const MAX_PROVINCE_CHANGES_PER_DAY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whether a member may move to another province right now */
+export interface ProvinceChangeStatus {
+  allowed: boolean;
+  /** When the next move becomes possible; null when it already is */
+  availableAt: Date | null;
+  /** Moves left in the current 24 hours */
+  remainingToday: number;
+}
+
+/**
+ * Apply the cooldown and daily limit to a member's history. Only the very
+ * first placement is free: coming back after leaving the map counts as a
+ * move, or leaving and returning would dodge the limit.
+ */
+export function provinceChangeStatus(
+  changes: Pick<ProvinceChange, "changed_at">[],
+  now: Date = new Date(),
+): ProvinceChangeStatus {
+  const recent = changes
+    .map((c) => Date.parse(c.changed_at))
+    .sort((a, b) => a - b)
+    .slice(1)
+    .filter((t) => t > now.getTime() - DAY_MS)
+    .sort((a, b) => b - a);
+
+  const waits: number[] = [];
+  if (recent.length > 0) waits.push(recent[0] + PROVINCE_CHANGE_COOLDOWN_MS);
+  // The oldest move that has to drop out of the window to free a slot
+  if (recent.length >= MAX_PROVINCE_CHANGES_PER_DAY) {
+    waits.push(recent[MAX_PROVINCE_CHANGES_PER_DAY - 1] + DAY_MS);
+  }
+  const availableAt = Math.max(...waits, 0);
+
+  const allowed = availableAt <= now.getTime();
+  return {
+    allowed,
+    availableAt: allowed ? null : new Date(availableAt),
+    remainingToday: Math.max(MAX_PROVINCE_CHANGES_PER_DAY - recent.length, 0),
+  };
+}
+
+/**
+ * Whether going from `current` to `next` is limited: every placement but the
+ * member's very first, including coming back after leaving the map
+ */
+export function countsAsMove<T>(
+  current: T | null,
+  next: T | null,
+  changes: readonly unknown[],
+): boolean {
+  return next !== null && next !== current && (current !== null || changes.length > 0);
+}
+
+/** "45 min" or "3 h 10 min", rounded up to the minute */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(Math.ceil(ms / 60_000), 1);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
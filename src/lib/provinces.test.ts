@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureCollection } from "geojson";
+import spainProvinces from "@/assets/geo/spain-provinces.v1.json";
+import {
+  findUnmatchedFeatures,
+  getProvinceCode,
+  getRawProvinceName,
+  loadProvinceBoundaries,
+  localBoundarySource,
+  locateProvince,
+  resolveProvinceCode,
+} from "@/lib/provinces";
+import { FIXTURE_PROVINCIAS } from "@/lib/repositories/fixtures";
+
+const provinces = spainProvinces as FeatureCollection;
+
+/** A one-degree square "province" whose coast is the meridian 3° W */
+const square: FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { cod_prov: "28" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [-4, 40],
+            [-3, 40],
+            [-3, 41],
+            [-4, 41],
+            [-4, 40],
+          ],
+        ],
+      },
+    },
+  ],
+};
+
+describe("locateProvince", () => {
+  it("finds the province a point falls in", () => {
+    expect(locateProvince(square, 40.5, -3.5)).toEqual({ provinceCode: "28", island: null });
+  });
+
+  it("lets a point just off the coast land on it", () => {
+    // About 1 km out, within the 0.02° tolerance
+    expect(locateProvince(square, 40.5, -2.99)).toEqual({ provinceCode: "28", island: null });
+    expect(locateProvince(square, 41.015, -3.5)).toEqual({ provinceCode: "28", island: null });
+  });
+
+  it("gives null in open sea", () => {
+    expect(locateProvince(square, 40.5, -2.9)).toBeNull();
+    expect(locateProvince(square, 41.1, -3.5)).toBeNull();
+  });
+
+  it("places points on the real boundaries", () => {
+    // Puerta del Sol
+    expect(locateProvince(provinces, 40.4169, -3.7035)).toMatchObject({ provinceCode: "28" });
+    // Halfway between Mallorca and Valencia
+    expect(locateProvince(provinces, 39.5, 1)).toBeNull();
+  });
+});
+
+describe("province boundaries", () => {
+  const knownCodes = new Set(FIXTURE_PROVINCIAS.map((p) => p.codigo_ine!));
+
+  it("match a province row for every feature, islands included", async () => {
+    const boundaries = await loadProvinceBoundaries(localBoundarySource);
+    expect(findUnmatchedFeatures(boundaries, knownCodes)).toEqual([]);
+  });
+
+  it("name provinces the alias table knows", () => {
+    // Sources without a code fall back to the name
+    for (const feature of provinces.features) {
+      expect(resolveProvinceCode(getRawProvinceName(feature))).toBe(getProvinceCode(feature));
+    }
+  });
+
+  it("resolve other spellings of a name", () => {
+    expect(resolveProvinceCode("Alicante")).toBe("03");
+    expect(resolveProvinceCode("Coruña (A)")).toBe("15");
+    expect(resolveProvinceCode("Atlántida")).toBeNull();
+  });
+});
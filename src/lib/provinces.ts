@@ -1,6 +1,415 @@
+import type { Feature, FeatureCollection, Geometry } from "geojson";
+import { pointInFeature, polygonCentroid } from "@/lib/geometry";
+
+/** Version of the bundled boundaries asset; bump it when regenerating the file */
+export const PROVINCE_BOUNDARIES_VERSION = "v1";
+
+/** A place province boundaries can be loaded from */
+export interface BoundarySource {
+  /** Stable identifier, also used as the parse cache key */
+  id: string;
+  load: () => Promise<FeatureCollection>;
+}
+
 /**
- * URL for the GeoJSON of Spanish provinces.
- * Source: click_that_hood / simplified boundaries.
+ * Boundaries bundled with the app.
+ * Source: IGN via es-atlas (CC BY 4.0), coordinates rounded to 4 decimals.
+ * Loaded as a separate chunk so it doesn't weigh on the initial bundle.
  */
-export const SPAIN_PROVINCES_GEOJSON_URL =
-  "https://raw.githubusercontent.com/codeforgermany/click_that_hood/main/public/data/spain-provinces.geojson";
+export const localBoundarySource: BoundarySource = {
+  id: `local:${PROVINCE_BOUNDARIES_VERSION}`,
+  load: async () => {
+    const mod = await import("@/assets/geo/spain-provinces.v1.json");
+    return mod.default as FeatureCollection;
+  },
+};
+
+/** Boundaries fetched from a remote GeoJSON URL */
+export function remoteBoundarySource(url: string): BoundarySource {
+  return {
+    id: `remote:${url}`,
+    load: async () => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Error cargando GeoJSON");
+      return (await res.json()) as FeatureCollection;
+    },
+  };
+}
+
+const remoteBoundariesUrl = import.meta.env.VITE_PROVINCES_GEOJSON_URL as
+  | string
+  | undefined;
+
+/** Local asset unless VITE_PROVINCES_GEOJSON_URL points somewhere else */
+export const defaultBoundarySource: BoundarySource = remoteBoundariesUrl
+  ? remoteBoundarySource(remoteBoundariesUrl)
+  : localBoundarySource;
+
+const boundaryCache = new Map<string, Promise<FeatureCollection>>();
+
+/**
+ * Load province boundaries with the archipelagos already split.
+ * Parsing and splitting happen once per source; later calls share the result.
+ */
+export function loadProvinceBoundaries(
+  source: BoundarySource = defaultBoundarySource,
+): Promise<FeatureCollection> {
+  const cached = boundaryCache.get(source.id);
+  if (cached) return cached;
+
+  const pending = source.load().then(splitArchipelagos);
+  // Forget failed loads so the next mount can retry
+  pending.catch(() => boundaryCache.delete(source.id));
+  boundaryCache.set(source.id, pending);
+  return pending;
+}
+
+/** Canonical province identity, keyed by INE code */
+export interface ProvinceInfo {
+  /** Two-digit INE province code, matches `provincias.codigo_ine` */
+  codigo: string;
+  nombre: string;
+  /** Autonomous community, used when `provincias.comunidad_autonoma` is empty */
+  comunidad: string;
+  /** Co-official, legacy and source-specific spellings */
+  aliases?: string[];
+}
+
+export const PROVINCES: ProvinceInfo[] = [
+  {
+    codigo: "01",
+    nombre: "Araba/Álava",
+    comunidad: "País Vasco",
+    aliases: ["Álava", "Araba"],
+  },
+  { codigo: "02", nombre: "Albacete", comunidad: "Castilla-La Mancha" },
+  {
+    codigo: "03",
+    nombre: "Alicante",
+    comunidad: "Comunitat Valenciana",
+    aliases: ["Alacant", "Alacant/Alicante"],
+  },
+  { codigo: "04", nombre: "Almería", comunidad: "Andalucía" },
+  { codigo: "05", nombre: "Ávila", comunidad: "Castilla y León" },
+  { codigo: "06", nombre: "Badajoz", comunidad: "Extremadura" },
+  {
+    codigo: "07",
+    nombre: "Illes Balears",
+    comunidad: "Illes Balears",
+    aliases: ["Islas Baleares", "Baleares", "Balears"],
+  },
+  { codigo: "08", nombre: "Barcelona", comunidad: "Cataluña" },
+  { codigo: "09", nombre: "Burgos", comunidad: "Castilla y León" },
+  { codigo: "10", nombre: "Cáceres", comunidad: "Extremadura" },
+  { codigo: "11", nombre: "Cádiz", comunidad: "Andalucía" },
+  {
+    codigo: "12",
+    nombre: "Castellón",
+    comunidad: "Comunitat Valenciana",
+    aliases: ["Castelló", "Castelló/Castellón", "Castellón de la Plana"],
+  },
+  { codigo: "13", nombre: "Ciudad Real", comunidad: "Castilla-La Mancha" },
+  { codigo: "14", nombre: "Córdoba", comunidad: "Andalucía" },
+  {
+    codigo: "15",
+    nombre: "A Coruña",
+    comunidad: "Galicia",
+    aliases: ["La Coruña", "Coruña"],
+  },
+  { codigo: "16", nombre: "Cuenca", comunidad: "Castilla-La Mancha" },
+  { codigo: "17", nombre: "Girona", comunidad: "Cataluña", aliases: ["Gerona"] },
+  { codigo: "18", nombre: "Granada", comunidad: "Andalucía" },
+  { codigo: "19", nombre: "Guadalajara", comunidad: "Castilla-La Mancha" },
+  {
+    codigo: "20",
+    nombre: "Gipuzkoa",
+    comunidad: "País Vasco",
+    aliases: ["Guipúzcoa"],
+  },
+  { codigo: "21", nombre: "Huelva", comunidad: "Andalucía" },
+  { codigo: "22", nombre: "Huesca", comunidad: "Aragón" },
+  { codigo: "23", nombre: "Jaén", comunidad: "Andalucía" },
+  { codigo: "24", nombre: "León", comunidad: "Castilla y León" },
+  { codigo: "25", nombre: "Lleida", comunidad: "Cataluña", aliases: ["Lérida"] },
+  { codigo: "26", nombre: "La Rioja", comunidad: "La Rioja", aliases: ["Rioja"] },
+  { codigo: "27", nombre: "Lugo", comunidad: "Galicia" },
+  { codigo: "28", nombre: "Madrid", comunidad: "Comunidad de Madrid" },
+  { codigo: "29", nombre: "Málaga", comunidad: "Andalucía" },
+  { codigo: "30", nombre: "Murcia", comunidad: "Región de Murcia" },
+  {
+    codigo: "31",
+    nombre: "Navarra",
+    comunidad: "Comunidad Foral de Navarra",
+    aliases: ["Nafarroa"],
+  },
+  { codigo: "32", nombre: "Ourense", comunidad: "Galicia", aliases: ["Orense"] },
+  { codigo: "33", nombre: "Asturias", comunidad: "Principado de Asturias" },
+  { codigo: "34", nombre: "Palencia", comunidad: "Castilla y León" },
+  { codigo: "35", nombre: "Las Palmas", comunidad: "Canarias" },
+  { codigo: "36", nombre: "Pontevedra", comunidad: "Galicia" },
+  { codigo: "37", nombre: "Salamanca", comunidad: "Castilla y León" },
+  { codigo: "38", nombre: "Santa Cruz de Tenerife", comunidad: "Canarias" },
+  { codigo: "39", nombre: "Cantabria", comunidad: "Cantabria" },
+  { codigo: "40", nombre: "Segovia", comunidad: "Castilla y León" },
+  { codigo: "41", nombre: "Sevilla", comunidad: "Andalucía" },
+  { codigo: "42", nombre: "Soria", comunidad: "Castilla y León" },
+  { codigo: "43", nombre: "Tarragona", comunidad: "Cataluña" },
+  { codigo: "44", nombre: "Teruel", comunidad: "Aragón" },
+  { codigo: "45", nombre: "Toledo", comunidad: "Castilla-La Mancha" },
+  {
+    codigo: "46",
+    nombre: "Valencia",
+    comunidad: "Comunitat Valenciana",
+    aliases: ["València", "València/Valencia"],
+  },
+  { codigo: "47", nombre: "Valladolid", comunidad: "Castilla y León" },
+  {
+    codigo: "48",
+    nombre: "Bizkaia",
+    comunidad: "País Vasco",
+    aliases: ["Vizcaya"],
+  },
+  { codigo: "49", nombre: "Zamora", comunidad: "Castilla y León" },
+  { codigo: "50", nombre: "Zaragoza", comunidad: "Aragón" },
+  { codigo: "51", nombre: "Ceuta", comunidad: "Ceuta" },
+  { codigo: "52", nombre: "Melilla", comunidad: "Melilla" },
+];
+
+/**
+ * Normalise a province name for comparison: no accents, no case, no
+ * punctuation, and INE's "Coruña (A)" style turned into "a coruña".
+ */
+export function normalizeProvinceName(name: string): string {
+  return name
+    .replace(/^(.+?)\s*\(([^)]+)\)$/, "$2 $1")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const PROVINCE_CODE_BY_NAME = new Map<string, string>(
+  PROVINCES.flatMap((p) =>
+    [p.nombre, ...(p.aliases ?? [])].map(
+      (name) => [normalizeProvinceName(name), p.codigo] as const,
+    ),
+  ),
+);
+
+const PROVINCE_BY_CODE = new Map(PROVINCES.map((p) => [p.codigo, p]));
+
+/** INE code for any known spelling of a province name */
+export function resolveProvinceCode(name: string): string | null {
+  return PROVINCE_CODE_BY_NAME.get(normalizeProvinceName(name)) ?? null;
+}
+
+/** Catalogue entry for an INE code */
+export function getProvinceInfo(codigo: string): ProvinceInfo | null {
+  return PROVINCE_BY_CODE.get(codigo) ?? null;
+}
+
+type IslandAnchor = {
+  name: string;
+  lat: number;
+  lng: number;
+};
+
+/** Keyed by INE province code */
+const ISLAND_SPLIT_ANCHORS: Record<string, IslandAnchor[]> = {
+  "07": [
+    { name: "Mallorca", lat: 39.6, lng: 2.9 },
+    { name: "Menorca", lat: 39.95, lng: 4.1 },
+    { name: "Ibiza", lat: 38.98, lng: 1.43 },
+    { name: "Formentera", lat: 38.7, lng: 1.45 },
+  ],
+  "35": [
+    { name: "Lanzarote", lat: 29.03, lng: -13.63 },
+    { name: "Fuerteventura", lat: 28.36, lng: -14.05 },
+    { name: "Gran Canaria", lat: 27.95, lng: -15.6 },
+  ],
+  "38": [
+    { name: "Tenerife", lat: 28.29, lng: -16.62 },
+    { name: "La Palma", lat: 28.69, lng: -17.86 },
+    { name: "La Gomera", lat: 28.11, lng: -17.23 },
+    { name: "El Hierro", lat: 27.73, lng: -18.03 },
+  ],
+};
+
+/** Islands drawn as their own features, with their province INE code */
+export const ISLANDS: { nombre: string; codigo: string }[] = Object.entries(
+  ISLAND_SPLIT_ANCHORS,
+).flatMap(([codigo, anchors]) => anchors.map((a) => ({ nombre: a.name, codigo })));
+
+export function getRawProvinceName(feature: Feature<Geometry>): string {
+  return (
+    getStringProperty(feature, "name") ??
+    getStringProperty(feature, "NAME") ??
+    getStringProperty(feature, "provincia") ??
+    "Desconocida"
+  );
+}
+
+export function getProvinceName(feature: Feature<Geometry>): string {
+  return getStringProperty(feature, "mapProvinceName") ?? getRawProvinceName(feature);
+}
+
+export function getFeatureLabel(feature: Feature<Geometry>): string {
+  return getStringProperty(feature, "mapDisplayName") ?? getRawProvinceName(feature);
+}
+
+/** Island of a split archipelago feature, null for every other feature */
+export function getIslandName(feature: Feature<Geometry>): string | null {
+  return getStringProperty(feature, "mapIslandName");
+}
+
+/**
+ * INE code of the province a feature belongs to. Uses the code carried by
+ * the source when there is one and falls back to the name alias table.
+ */
+export function getProvinceCode(feature: Feature<Geometry>): string | null {
+  const code =
+    getStringProperty(feature, "cod_prov") ??
+    getStringProperty(feature, "codigo_ine") ??
+    getNumericCode(feature, "cod_prov");
+  if (code && PROVINCE_BY_CODE.has(code)) return code;
+  return resolveProvinceCode(getProvinceName(feature));
+}
+
+function getNumericCode(feature: Feature<Geometry>, key: string): string | null {
+  const value = feature.properties?.[key];
+  return typeof value === "number" ? String(value).padStart(2, "0") : null;
+}
+
+/** Labels of features whose province has no row in `provincias` */
+export function findUnmatchedFeatures(
+  data: FeatureCollection,
+  knownCodes: ReadonlySet<string>,
+): string[] {
+  return data.features
+    .filter((feature) => {
+      const code = getProvinceCode(feature);
+      return !code || !knownCodes.has(code);
+    })
+    .map(getFeatureLabel);
+}
+
+function getStringProperty(feature: Feature<Geometry>, key: string): string | null {
+  const value = feature.properties?.[key];
+  return typeof value === "string" ? value : null;
+}
+
+function nearestAnchor(
+  lat: number,
+  lng: number,
+  anchors: IslandAnchor[],
+): IslandAnchor {
+  let best = anchors[0];
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const anchor of anchors) {
+    const latDiff = anchor.lat - lat;
+    const lngDiff = anchor.lng - lng;
+    const distance = latDiff * latDiff + lngDiff * lngDiff;
+    if (distance < bestDistance) {
+      best = anchor;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Offsets in degrees (about 2 km) tried when a point misses every feature,
+ * so a location on the beach still lands on the simplified coastline
+ */
+const COAST_TOLERANCE_OFFSETS: [number, number][] = [
+  [0.02, 0],
+  [-0.02, 0],
+  [0, 0.02],
+  [0, -0.02],
+  [0.02, 0.02],
+  [0.02, -0.02],
+  [-0.02, 0.02],
+  [-0.02, -0.02],
+];
+
+/**
+ * Province (and island, for split archipelagos) a point falls in, from the
+ * loaded boundaries. Null when the point is outside Spain.
+ */
+export function locateProvince(
+  data: FeatureCollection,
+  lat: number,
+  lng: number,
+): { provinceCode: string; island: string | null } | null {
+  const find = (point: [number, number]) =>
+    data.features.find(
+      (feature) => getProvinceCode(feature) && pointInFeature(point, feature),
+    );
+  const feature =
+    find([lng, lat]) ??
+    COAST_TOLERANCE_OFFSETS.map(([dLat, dLng]) => find([lng + dLng, lat + dLat])).find(
+      Boolean,
+    );
+  const provinceCode = feature ? getProvinceCode(feature) : null;
+  return feature && provinceCode
+    ? { provinceCode, island: getIslandName(feature) }
+    : null;
+}
+
+/**
+ * Island a point of an archipelago province falls on, using the same
+ * nearest-anchor rule as the map split. Null outside the split provinces.
+ */
+export function islandAt(provinceCode: string, lat: number, lng: number): string | null {
+  const anchors = ISLAND_SPLIT_ANCHORS[provinceCode];
+  return anchors ? nearestAnchor(lat, lng, anchors).name : null;
+}
+
+function splitIslandFeature(feature: Feature<Geometry>): Feature<Geometry>[] {
+  const provinceName = getRawProvinceName(feature);
+  const provinceCode = getProvinceCode(feature);
+  const anchors = provinceCode ? ISLAND_SPLIT_ANCHORS[provinceCode] : undefined;
+  if (!anchors || feature.geometry.type !== "MultiPolygon") {
+    return [feature];
+  }
+
+  const groups = new Map<string, number[][][][]>();
+  anchors.forEach((anchor) => groups.set(anchor.name, []));
+
+  for (const polygon of feature.geometry.coordinates as number[][][][]) {
+    const [lng, lat] = polygonCentroid(polygon);
+    const anchor = nearestAnchor(lat, lng, anchors);
+    groups.get(anchor.name)?.push(polygon);
+  }
+
+  const splitFeatures: Feature<Geometry>[] = [];
+  for (const anchor of anchors) {
+    const coordinates = groups.get(anchor.name);
+    if (!coordinates || coordinates.length === 0) continue;
+
+    splitFeatures.push({
+      ...feature,
+      properties: {
+        ...(feature.properties ?? {}),
+        mapProvinceName: provinceName,
+        mapDisplayName: anchor.name,
+        mapIslandName: anchor.name,
+      },
+      geometry: {
+        type: "MultiPolygon",
+        coordinates,
+      },
+    });
+  }
+
+  return splitFeatures.length > 0 ? splitFeatures : [feature];
+}
+
+/** Render each island of Baleares and Canarias as its own feature */
+export function splitArchipelagos(data: FeatureCollection): FeatureCollection {
+  return {
+    ...data,
+    features: data.features.flatMap(splitIslandFeature),
+  };
+}
@@ -0,0 +1,383 @@
+import {
+  QueryClient,
+  queryOptions,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import type { User } from "@supabase/supabase-js";
+import { identityFromUser } from "@/auth/identity";
+import { supabase } from "@/auth/supabaseClient";
+import {
+  fetchAllProfiles,
+  fetchAnonymousCounts,
+  fetchCommunityGrowth,
+  fetchCommunityTimeline,
+  fetchIslas,
+  fetchMyProfile,
+  fetchNewestProfiles,
+  fetchProfileByUsername,
+  fetchProfilesByProvince,
+  fetchProvinceChanges,
+  fetchProvinceTotals,
+  fetchProvinciaByCode,
+  fetchProvincias,
+  setProfileVisibility,
+  setUserLocation,
+  syncProfileIdentity,
+  updateProfileDetails,
+  type Isla,
+  type Profile,
+  type ProfileDetails,
+  type ProfileVisibility,
+  type ProfileWithProvince,
+  type Provincia,
+} from "@/lib/db";
+import { DataError, unwrap } from "@/lib/errors";
+import {
+  loadMunicipalities,
+  municipalityCell,
+  type Municipality,
+} from "@/lib/municipalities";
+import { applyProfileChange, type ProfileChange } from "@/lib/realtime";
+import { canReadProfile } from "@/lib/visibility";
+
+/** Profiles change often (realtime patches the cache in between) */
+const PROFILES_STALE_MS = 30_000;
+
+export function createQueryClient() {
+  return new QueryClient({
+    defaultOptions: {
+      // db.ts already retries transient failures with backoff
+      queries: { staleTime: PROFILES_STALE_MS, retry: false },
+      mutations: { retry: false },
+    },
+  });
+}
+
+/** Cache keys; everything under "profiles" is invalidated together */
+export const queryKeys = {
+  session: ["session"] as const,
+  profiles: ["profiles"] as const,
+  profilesByProvince: (provinciaId: number) =>
+    ["profiles", "provincia", provinciaId] as const,
+  profileByUsername: (username: string) =>
+    ["profiles", "username", username.toLowerCase()] as const,
+  myProfile: (userId: string) => ["profiles", "me", userId] as const,
+  provinceChanges: (userId: string) => ["profiles", "changes", userId] as const,
+  anonymousCounts: ["profiles", "anonymous"] as const,
+  newestProfiles: (maxResults: number) => ["profiles", "newest", maxResults] as const,
+  provinceTotals: ["profiles", "stats", "provinces"] as const,
+  communityGrowth: ["profiles", "stats", "growth"] as const,
+  communityTimeline: ["profiles", "stats", "timeline"] as const,
+  provincias: ["provincias"] as const,
+  provinciaByCode: (codigo: string) => ["provincias", codigo] as const,
+  islas: ["islas"] as const,
+  municipios: ["municipios"] as const,
+};
+
+/** Current auth session; kept fresh by the auth listener */
+export const sessionQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.session,
+    queryFn: async () => (await supabase.auth.getSession()).data.session,
+    staleTime: Infinity,
+  });
+
+export const profilesQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.profiles,
+    queryFn: async () => unwrap(await fetchAllProfiles()),
+  });
+
+export const profilesByProvinceQuery = (provinciaId: number) =>
+  queryOptions({
+    queryKey: queryKeys.profilesByProvince(provinciaId),
+    queryFn: async () => unwrap(await fetchProfilesByProvince(provinciaId)),
+  });
+
+export const profileByUsernameQuery = (username: string) =>
+  queryOptions({
+    queryKey: queryKeys.profileByUsername(username),
+    queryFn: async () => unwrap(await fetchProfileByUsername(username)),
+  });
+
+export const myProfileQuery = (userId: string) =>
+  queryOptions({
+    queryKey: queryKeys.myProfile(userId),
+    queryFn: async () => unwrap(await fetchMyProfile(userId)),
+  });
+
+/** The user's own province history, for the cooldown and their data export */
+export const provinceChangesQuery = (userId: string) =>
+  queryOptions({
+    queryKey: queryKeys.provinceChanges(userId),
+    queryFn: async () => unwrap(await fetchProvinceChanges(userId)),
+  });
+
+/** Members the viewer can't see by name, still counted on the map */
+export const anonymousCountsQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.anonymousCounts,
+    queryFn: async () => unwrap(await fetchAnonymousCounts()),
+  });
+
+export const newestProfilesQuery = (maxResults: number) =>
+  queryOptions({
+    queryKey: queryKeys.newestProfiles(maxResults),
+    queryFn: async () => unwrap(await fetchNewestProfiles(maxResults)),
+  });
+
+/** Members per province, counted on the server */
+export const provinceTotalsQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.provinceTotals,
+    queryFn: async () => unwrap(await fetchProvinceTotals()),
+  });
+
+export const communityGrowthQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.communityGrowth,
+    queryFn: async () => unwrap(await fetchCommunityGrowth()),
+  });
+
+/** Placements and moves for the time-lapse, only fetched when it's opened */
+export const communityTimelineQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.communityTimeline,
+    queryFn: async () => unwrap(await fetchCommunityTimeline()),
+  });
+
+/** Province rows hardly ever change */
+export const provinciasQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.provincias,
+    queryFn: async () => unwrap(await fetchProvincias()),
+    staleTime: Infinity,
+  });
+
+export const provinciaByCodeQuery = (codigo: string) =>
+  queryOptions({
+    queryKey: queryKeys.provinciaByCode(codigo),
+    queryFn: async () => unwrap(await fetchProvinciaByCode(codigo)),
+    staleTime: Infinity,
+  });
+
+export const islasQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.islas,
+    queryFn: async () => unwrap(await fetchIslas()),
+    staleTime: Infinity,
+  });
+
+/** Bundled municipality list, loaded on first use */
+export const municipiosQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.municipios,
+    queryFn: loadMunicipalities,
+    staleTime: Infinity,
+  });
+
+/**
+ * Patch the cached map with a realtime change instead of refetching, and
+ * return the change as it applies to this viewer. A member who is no longer
+ * readable (e.g. just went anonymous) leaves the list and only shows up
+ * again in the anonymous counts; a REFRESH refetches every profile query.
+ */
+export function applyProfileChangeToCache(
+  queryClient: QueryClient,
+  incoming: ProfileChange,
+  viewerId: string | null,
+  provincias: Provincia[],
+  islas: Isla[],
+): ProfileChange {
+  if (incoming.type === "REFRESH") {
+    queryClient.invalidateQueries({ queryKey: queryKeys.profiles });
+    return incoming;
+  }
+
+  let change = incoming;
+  if (change.type !== "DELETE" && !canReadProfile(change.profile, viewerId)) {
+    change = { type: "DELETE", id: change.profile.id };
+    queryClient.invalidateQueries({ queryKey: queryKeys.anonymousCounts });
+  }
+  queryClient.setQueryData<ProfileWithProvince[]>(
+    queryKeys.profiles,
+    (current) => current && applyProfileChange(current, change, provincias, islas),
+  );
+  return change;
+}
+
+/**
+ * Target of a location change. The island is null outside the archipelagos
+ * and the municipality is optional everywhere.
+ */
+export interface LocationChange {
+  provincia: Provincia;
+  isla: Isla | null;
+  municipio: Municipality | null;
+}
+
+/**
+ * Move the user to a province, island or municipality. The cached map and
+ * profile update right away and roll back if the write fails.
+ */
+export function useSetLocationMutation(userId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ provincia, isla, municipio }: LocationChange) => {
+      if (!userId) throw new DataError("auth", "No hay sesión activa");
+      unwrap(
+        await setUserLocation(userId, {
+          provinciaId: provincia.id,
+          islaId: isla?.id ?? null,
+          municipioCodigo: municipio?.codigo ?? null,
+          municipioCelda: municipio ? municipalityCell(municipio) : null,
+        }),
+      );
+    },
+    onMutate: async ({ provincia, isla, municipio }) => {
+      if (!userId) return;
+      const profilesKey = queryKeys.profiles;
+      const myProfileKey = queryKeys.myProfile(userId);
+      await queryClient.cancelQueries({ queryKey: profilesKey });
+
+      const previousProfiles =
+        queryClient.getQueryData<ProfileWithProvince[]>(profilesKey);
+      const previousMine = queryClient.getQueryData<Profile | null>(myProfileKey);
+      const updatedAt = new Date().toISOString();
+
+      queryClient.setQueryData<ProfileWithProvince[]>(profilesKey, (current) =>
+        current?.map((p) =>
+          p.id === userId
+            ? {
+                ...p,
+                provincia_id: provincia.id,
+                isla_id: isla?.id ?? null,
+                municipio_celda: municipio ? municipalityCell(municipio) : null,
+                updated_at: updatedAt,
+                provincias: {
+                  nombre: provincia.nombre,
+                  codigo_ine: provincia.codigo_ine,
+                },
+                islas: isla ? { nombre: isla.nombre } : null,
+              }
+            : p,
+        ),
+      );
+      queryClient.setQueryData<Profile | null>(myProfileKey, (current) =>
+        current
+          ? {
+              ...current,
+              provincia_id: provincia.id,
+              isla_id: isla?.id ?? null,
+              municipio_codigo: municipio?.codigo ?? null,
+              municipio_celda: municipio ? municipalityCell(municipio) : null,
+              updated_at: updatedAt,
+            }
+          : current,
+      );
+      return { previousProfiles, previousMine };
+    },
+    onError: (_error, _change, context) => {
+      if (!userId || !context) return;
+      queryClient.setQueryData(queryKeys.profiles, context.previousProfiles);
+      queryClient.setQueryData(queryKeys.myProfile(userId), context.previousMine);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.profiles }),
+  });
+}
+
+/**
+ * Change who can see the user. Their own profile updates right away; the
+ * map refetches since other viewers' counts change too.
+ */
+export function useSetVisibilityMutation(userId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (visibility: ProfileVisibility) => {
+      if (!userId) throw new DataError("auth", "No hay sesión activa");
+      unwrap(await setProfileVisibility(userId, visibility));
+    },
+    onMutate: async (visibility) => {
+      if (!userId) return;
+      const profilesKey = queryKeys.profiles;
+      const myProfileKey = queryKeys.myProfile(userId);
+      await queryClient.cancelQueries({ queryKey: profilesKey });
+
+      const previousProfiles =
+        queryClient.getQueryData<ProfileWithProvince[]>(profilesKey);
+      const previousMine = queryClient.getQueryData<Profile | null>(myProfileKey);
+      queryClient.setQueryData<Profile | null>(myProfileKey, (current) =>
+        current ? { ...current, visibility } : current,
+      );
+      queryClient.setQueryData<ProfileWithProvince[]>(profilesKey, (current) =>
+        current?.map((p) => (p.id === userId ? { ...p, visibility } : p)),
+      );
+      return { previousProfiles, previousMine };
+    },
+    onError: (_error, _visibility, context) => {
+      if (!userId || !context) return;
+      queryClient.setQueryData(queryKeys.profiles, context.previousProfiles);
+      queryClient.setQueryData(queryKeys.myProfile(userId), context.previousMine);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.profiles }),
+  });
+}
+
+/**
+ * Save the user's name, username, bio and links. Like a location change,
+ * the cached profile and map update right away and roll back on failure.
+ */
+export function useUpdateDetailsMutation(userId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (details: ProfileDetails) => {
+      if (!userId) throw new DataError("auth", "No hay sesión activa");
+      unwrap(await updateProfileDetails(userId, details));
+    },
+    onMutate: async (details) => {
+      if (!userId) return;
+      const profilesKey = queryKeys.profiles;
+      const myProfileKey = queryKeys.myProfile(userId);
+      await queryClient.cancelQueries({ queryKey: profilesKey });
+
+      const previousProfiles =
+        queryClient.getQueryData<ProfileWithProvince[]>(profilesKey);
+      const previousMine = queryClient.getQueryData<Profile | null>(myProfileKey);
+      const updatedAt = new Date().toISOString();
+
+      queryClient.setQueryData<ProfileWithProvince[]>(profilesKey, (current) =>
+        current?.map((p) =>
+          p.id === userId ? { ...p, ...details, updated_at: updatedAt } : p,
+        ),
+      );
+      queryClient.setQueryData<Profile | null>(myProfileKey, (current) =>
+        current ? { ...current, ...details, updated_at: updatedAt } : current,
+      );
+      return { previousProfiles, previousMine };
+    },
+    onError: (_error, _details, context) => {
+      if (!userId || !context) return;
+      queryClient.setQueryData(queryKeys.profiles, context.previousProfiles);
+      queryClient.setQueryData(queryKeys.myProfile(userId), context.previousMine);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.profiles }),
+  });
+}
+
+/**
+ * Bring name, avatar and username up to date with the X account the user
+ * just signed in with. Failures are only logged: the stale values still work.
+ */
+export function useSyncIdentityMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (user: User) =>
+      unwrap(await syncProfileIdentity(user.id, identityFromUser(user))),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.profiles }),
+  });
+}
@@ -0,0 +1,199 @@
+import { QueryClient } from "@tanstack/react-query";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/auth/supabaseClient", () => ({ supabase: {}, isSupabaseConfigured: false }));
+
+import type { ProfileWithProvince } from "@/lib/db";
+import { applyProfileChangeToCache, queryKeys } from "@/lib/queries";
+import {
+  applyProfileChange,
+  emitLocalProfileChange,
+  LOCAL_PROFILE_CHANNEL,
+  localProfileChangeSource,
+} from "@/lib/realtime";
+import {
+  FIXTURE_ISLAS,
+  FIXTURE_PROFILES,
+  FIXTURE_PROVINCIAS,
+} from "@/lib/repositories/fixtures";
+
+const [madrid, barcelona] = ["28", "08"].map(
+  (codigo) => FIXTURE_PROVINCIAS.find((p) => p.codigo_ine === codigo)!,
+);
+const [ana, bea, carla] = FIXTURE_PROFILES.filter((p) => p.visibility === "public").map(
+  (p) => ({ ...p, provincia_id: madrid.id, isla_id: null }),
+);
+
+/** A profile as the list query returns it */
+function listed(profile: typeof ana): ProfileWithProvince {
+  return {
+    ...profile,
+    provincias: { nombre: madrid.nombre, codigo_ine: madrid.codigo_ine },
+    islas: null,
+  };
+}
+
+describe("applyProfileChange", () => {
+  const cached = [listed(ana), listed(bea)];
+
+  it("adds an inserted member first, with the province joined", () => {
+    const next = applyProfileChange(
+      cached,
+      { type: "INSERT", profile: { ...carla, provincia_id: barcelona.id } },
+      FIXTURE_PROVINCIAS,
+    );
+    expect(next.map((p) => p.id)).toEqual([carla.id, ana.id, bea.id]);
+    expect(next[0].provincias).toEqual({
+      nombre: barcelona.nombre,
+      codigo_ine: barcelona.codigo_ine,
+    });
+  });
+
+  it("replaces an updated member and moves them first", () => {
+    const next = applyProfileChange(
+      cached,
+      { type: "UPDATE", profile: { ...bea, provincia_id: barcelona.id } },
+      FIXTURE_PROVINCIAS,
+    );
+    expect(next.map((p) => p.id)).toEqual([bea.id, ana.id]);
+    expect(next[0]).toMatchObject({
+      provincia_id: barcelona.id,
+      provincias: { nombre: barcelona.nombre },
+    });
+  });
+
+  it("joins the island when there is one", () => {
+    const isla = FIXTURE_ISLAS[0];
+    const next = applyProfileChange(
+      cached,
+      {
+        type: "UPDATE",
+        profile: { ...ana, provincia_id: isla.provincia_id, isla_id: isla.id },
+      },
+      FIXTURE_PROVINCIAS,
+      FIXTURE_ISLAS,
+    );
+    expect(next[0].islas).toEqual({ nombre: isla.nombre });
+  });
+
+  it("drops a deleted member", () => {
+    const next = applyProfileChange(cached, { type: "DELETE", id: ana.id }, FIXTURE_PROVINCIAS);
+    expect(next).toEqual([listed(bea)]);
+  });
+});
+
+describe("applyProfileChangeToCache", () => {
+  function cacheWith(profiles: ProfileWithProvince[]) {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(queryKeys.profiles, profiles);
+    queryClient.setQueryData(queryKeys.anonymousCounts, []);
+    queryClient.setQueryData(queryKeys.profilesByProvince(madrid.id), profiles);
+    return queryClient;
+  }
+  const isInvalidated = (queryClient: QueryClient, queryKey: readonly unknown[]) =>
+    queryClient.getQueryState(queryKey)?.isInvalidated;
+
+  it("merges a readable change into the cached map", () => {
+    const queryClient = cacheWith([listed(ana)]);
+
+    const change = applyProfileChangeToCache(
+      queryClient,
+      { type: "INSERT", profile: bea },
+      null,
+      FIXTURE_PROVINCIAS,
+      FIXTURE_ISLAS,
+    );
+
+    expect(change).toEqual({ type: "INSERT", profile: bea });
+    const cached = queryClient.getQueryData<ProfileWithProvince[]>(queryKeys.profiles);
+    expect(cached?.map((p) => p.id)).toEqual([bea.id, ana.id]);
+  });
+
+  it("removes a member who stops being public and recounts the anonymous", () => {
+    const queryClient = cacheWith([listed(ana), listed(bea)]);
+
+    const change = applyProfileChangeToCache(
+      queryClient,
+      { type: "UPDATE", profile: { ...bea, visibility: "anonymous" } },
+      null,
+      FIXTURE_PROVINCIAS,
+      FIXTURE_ISLAS,
+    );
+
+    expect(change).toEqual({ type: "DELETE", id: bea.id });
+    expect(queryClient.getQueryData(queryKeys.profiles)).toEqual([listed(ana)]);
+    expect(isInvalidated(queryClient, queryKeys.anonymousCounts)).toBe(true);
+  });
+
+  it("keeps a members-only profile for a signed-in viewer", () => {
+    const queryClient = cacheWith([listed(ana), listed(bea)]);
+    const membersOnly = { ...bea, visibility: "members" as const };
+
+    applyProfileChangeToCache(
+      queryClient,
+      { type: "UPDATE", profile: membersOnly },
+      ana.id,
+      FIXTURE_PROVINCIAS,
+      FIXTURE_ISLAS,
+    );
+
+    expect(
+      queryClient.getQueryData<ProfileWithProvince[]>(queryKeys.profiles)?.[0],
+    ).toMatchObject({ id: bea.id, visibility: "members" });
+    expect(isInvalidated(queryClient, queryKeys.anonymousCounts)).toBe(false);
+  });
+
+  it("refetches every profile query on a refresh", () => {
+    const queryClient = cacheWith([listed(ana)]);
+
+    applyProfileChangeToCache(
+      queryClient,
+      { type: "REFRESH" },
+      null,
+      FIXTURE_PROVINCIAS,
+      FIXTURE_ISLAS,
+    );
+
+    for (const queryKey of [
+      queryKeys.profiles,
+      queryKeys.anonymousCounts,
+      queryKeys.profilesByProvince(madrid.id),
+    ]) {
+      expect(isInvalidated(queryClient, queryKey)).toBe(true);
+    }
+    // The cached rows stay until the refetch replaces them
+    expect(queryClient.getQueryData(queryKeys.profiles)).toEqual([listed(ana)]);
+  });
+});
+
+describe("localProfileChangeSource", () => {
+  it("delivers changes emitted in this tab until unsubscribed", () => {
+    const onChange = vi.fn();
+    const unsubscribe = localProfileChangeSource.subscribe(onChange);
+
+    emitLocalProfileChange({ type: "DELETE", id: ana.id });
+    unsubscribe();
+    emitLocalProfileChange({ type: "DELETE", id: bea.id });
+
+    expect(onChange.mock.calls).toEqual([[{ type: "DELETE", id: ana.id }]]);
+  });
+
+  it("invalidates the profile queries on a refresh from another tab", async () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(queryKeys.profiles, [listed(ana)]);
+    const unsubscribe = localProfileChangeSource.subscribe((change) =>
+      applyProfileChangeToCache(queryClient, change, null, FIXTURE_PROVINCIAS, FIXTURE_ISLAS),
+    );
+    const otherTab = new BroadcastChannel(LOCAL_PROFILE_CHANNEL);
+
+    try {
+      otherTab.postMessage({ type: "REFRESH" });
+      await vi.waitFor(() =>
+        expect(queryClient.getQueryState(queryKeys.profiles)?.isInvalidated).toBe(true),
+      );
+    } finally {
+      otherTab.close();
+      unsubscribe();
+    }
+  });
+});
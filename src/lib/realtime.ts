@@ -0,0 +1,118 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/auth/supabaseClient";
+import type { Isla, Profile, ProfileWithProvince, Provincia } from "@/lib/db";
+import { dataBackend } from "@/lib/repositories/backend";
+
+/**
+ * A row change on `profiles`; deletes only carry the id. REFRESH stands for
+ * changes the viewer gets no row for, e.g. a member going anonymous: the
+ * lists and counts have to be fetched again.
+ */
+export type ProfileChange =
+  | { type: "INSERT" | "UPDATE"; profile: Profile }
+  | { type: "DELETE"; id: string }
+  | { type: "REFRESH" };
+
+/** Something that pushes `profiles` changes as they happen */
+export interface ProfileChangeSource {
+  id: string;
+  /** Start listening; the returned function stops it */
+  subscribe: (onChange: (change: ProfileChange) => void) => () => void;
+}
+
+/**
+ * Postgres changes broadcast by Supabase realtime. RLS keeps rows a viewer
+ * can't read out of their feed, so the database also broadcasts a "refresh"
+ * on this channel when such a row changes.
+ */
+export const supabaseProfileChangeSource: ProfileChangeSource = {
+  id: "supabase",
+  subscribe: (onChange) => {
+    const channel = supabase
+      .channel("profiles-changes")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "profiles" },
+        (payload: RealtimePostgresChangesPayload<Profile>) => {
+          if (payload.eventType === "DELETE") {
+            if (payload.old.id) onChange({ type: "DELETE", id: payload.old.id });
+          } else {
+            onChange({ type: payload.eventType, profile: payload.new });
+          }
+        },
+      )
+      .on("broadcast", { event: "refresh" }, () => onChange({ type: "REFRESH" }))
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
+
+/** BroadcastChannel name of the local stand-in */
+export const LOCAL_PROFILE_CHANNEL = "finxmap:profiles";
+
+const localListeners = new Set<(change: ProfileChange) => void>();
+
+/**
+ * Stand-in for realtime without a Supabase project. Changes come from
+ * `emitLocalProfileChange` in this tab or from any other tab posting to
+ * `new BroadcastChannel("finxmap:profiles")`.
+ */
+export const localProfileChangeSource: ProfileChangeSource = {
+  id: "local",
+  subscribe: (onChange) => {
+    localListeners.add(onChange);
+    const channel =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(LOCAL_PROFILE_CHANNEL);
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<ProfileChange>) => onChange(event.data);
+    }
+    return () => {
+      localListeners.delete(onChange);
+      channel?.close();
+    };
+  },
+};
+
+/** Deliver a change to local subscribers in this tab */
+export function emitLocalProfileChange(change: ProfileChange) {
+  for (const listener of localListeners) listener(change);
+}
+
+/** Supabase realtime, or the local stand-in with VITE_REALTIME_SOURCE=local or the memory backend */
+export const defaultProfileChangeSource: ProfileChangeSource =
+  import.meta.env.VITE_REALTIME_SOURCE === "local" || dataBackend === "memory"
+    ? localProfileChangeSource
+    : supabaseProfileChangeSource;
+
+/**
+ * Apply one change to a profile list. Realtime rows come without the
+ * province and island joins, so they are rebuilt from those rows.
+ */
+export function applyProfileChange(
+  profiles: ProfileWithProvince[],
+  change: ProfileChange,
+  provincias: Provincia[],
+  islas: Isla[] = [],
+): ProfileWithProvince[] {
+  if (change.type === "REFRESH") return profiles;
+  if (change.type === "DELETE") {
+    return profiles.filter((p) => p.id !== change.id);
+  }
+
+  const provincia = provincias.find((p) => p.id === change.profile.provincia_id);
+  const isla = islas.find((i) => i.id === change.profile.isla_id);
+  const next: ProfileWithProvince = {
+    ...change.profile,
+    provincias: provincia
+      ? { nombre: provincia.nombre, codigo_ine: provincia.codigo_ine }
+      : null,
+    islas: isla ? { nombre: isla.nombre } : null,
+  };
+  const rest = profiles.filter((p) => p.id !== next.id);
+  // Same order as fetchAllProfiles: most recently updated first
+  return [next, ...rest];
+}
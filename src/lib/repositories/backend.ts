@@ -0,0 +1,15 @@
+import { isSupabaseConfigured } from "@/auth/supabaseClient";
+
+export type DataBackend = "supabase" | "memory";
+
+/**
+ * VITE_DATA_BACKEND forces a backend; otherwise Supabase when it is
+ * configured and the in-memory fixtures when it isn't.
+ */
+export const dataBackend: DataBackend =
+  import.meta.env.VITE_DATA_BACKEND === "memory" ||
+  import.meta.env.VITE_DATA_BACKEND === "supabase"
+    ? import.meta.env.VITE_DATA_BACKEND
+    : isSupabaseConfigured
+      ? "supabase"
+      : "memory";
@@ -0,0 +1,177 @@
+import { ISLANDS, PROVINCES } from "@/lib/provinces";
+import type {
+  Isla,
+  Profile,
+  ProfileVisibility,
+  ProvinceChange,
+  Provincia,
+} from "@/lib/repositories/types";
+
+/** Every province, with ids assigned in INE code order */
+export const FIXTURE_PROVINCIAS: Provincia[] = [...PROVINCES]
+  .sort((a, b) => a.codigo.localeCompare(b.codigo))
+  .map((p, i) => ({
+    id: i + 1,
+    nombre: p.nombre,
+    codigo_ine: p.codigo,
+    comunidad_autonoma: p.comunidad,
+  }));
+
+function provinciaId(codigo: string): number {
+  const row = FIXTURE_PROVINCIAS.find((p) => p.codigo_ine === codigo);
+  if (!row) throw new Error(`Provincia de ejemplo desconocida: ${codigo}`);
+  return row.id;
+}
+
+/** Islands of the split archipelago provinces, as seeded by the islas migration */
+export const FIXTURE_ISLAS: Isla[] = ISLANDS.map((island, i) => ({
+  id: i + 1,
+  nombre: island.nombre,
+  provincia_id: provinciaId(island.codigo),
+}));
+
+function islaId(nombre: string): number {
+  const row = FIXTURE_ISLAS.find((i) => i.nombre === nombre);
+  if (!row) throw new Error(`Isla de ejemplo desconocida: ${nombre}`);
+  return row.id;
+}
+
+/** [full name, username, INE code or null when not placed yet, island] */
+const SAMPLE_MEMBERS: [string, string, string | null, string?][] = [
+  ["Lucía García", "luciagarcia", "28"],
+  ["Hugo Martínez", "hugomtz", "28"],
+  ["Martina López", "martinalopez", "28"],
+  ["Mateo Sánchez", "mateo_sanchez", "28"],
+  ["Sofía Pérez", "sofiaperez", "28"],
+  ["Leo Gómez", "leogomez", "28"],
+  ["Julia Fernández", "juliafdez", "08"],
+  ["Daniel Ruiz", "danielruiz", "08"],
+  ["Paula Díaz", "pauladiaz", "08"],
+  ["Álvaro Moreno", "alvaromoreno", "08"],
+  ["Valeria Muñoz", "valeriamunoz", "46"],
+  ["Pablo Álvarez", "pabloalvarez", "46"],
+  ["Emma Romero", "emmaromero", "46"],
+  ["Manuel Alonso", "manualonso", "41"],
+  ["Carmen Gutiérrez", "carmengtz", "41"],
+  ["Adrián Navarro", "adriannavarro", "29"],
+  ["Noa Torres", "noatorres", "29"],
+  ["Diego Domínguez", "diegodominguez", "03"],
+  ["Alba Vázquez", "albavazquez", "48"],
+  ["Iker Ramos", "ikerramos", "48"],
+  ["Ane Etxeberria", "aneetxe", "20"],
+  ["Xabier Otxoa", "xabiotxoa", "01"],
+  ["Uxía Castro", "uxiacastro", "15"],
+  ["Brais Iglesias", "braisiglesias", "36"],
+  ["Irene Gil", "irenegil", "50"],
+  ["Javier Serrano", "javiserrano", "30"],
+  ["Marta Blanco", "martablanco", "47"],
+  ["Sergio Molina", "sergiomolina", "18"],
+  ["Laura Morales", "lauramorales", "14"],
+  ["Carlos Ortega", "carlosortega", "33"],
+  ["Nerea Delgado", "nereadelgado", "39"],
+  ["Jorge Castillo", "jorgecastillo", "07", "Mallorca"],
+  ["Aina Rubio", "ainarubio", "07", "Menorca"],
+  ["Ayoze Santana", "ayozesantana", "35", "Lanzarote"],
+  ["Candelaria Hernández", "candehdez", "38", "Tenerife"],
+  ["Raúl Marín", "raulmarin", "45"],
+  ["Elena Sanz", "elenasanz", "37"],
+  ["Iván Núñez", "ivannunez", "06"],
+  ["Claudia Medina", "claudiamedina", "51"],
+  ["Nicolás Herrera", "nicoherrera", null],
+];
+
+/** Members who also picked a municipality, by username, with its grid cell */
+const SAMPLE_MUNICIPALITIES: Record<string, [codigo: string, celda: string]> = {
+  luciagarcia: ["28079", "40.475,-3.675"],
+  hugomtz: ["28079", "40.475,-3.675"],
+  martinalopez: ["28005", "40.475,-3.375"],
+  juliafdez: ["08019", "41.425,2.175"],
+  danielruiz: ["08187", "41.575,2.125"],
+  valeriamunoz: ["46250", "39.425,-0.375"],
+  jorgecastillo: ["07040", "39.575,2.675"],
+};
+
+/** Members who aren't public, by username; everyone else is */
+const SAMPLE_VISIBILITY: Record<string, ProfileVisibility> = {
+  leogomez: "members",
+  alvaromoreno: "members",
+  emmaromero: "anonymous",
+  noatorres: "anonymous",
+  ikerramos: "anonymous",
+  irenegil: "hidden",
+};
+
+/** Members who moved: [INE code they started in, days after joining] */
+const SAMPLE_MOVES: Record<string, [string, number]> = {
+  hugomtz: ["08", 20],
+  pabloalvarez: ["03", 12],
+  carlosortega: ["24", 30],
+  raulmarin: ["28", 5],
+};
+
+const FIXTURE_EPOCH = Date.UTC(2025, 0, 6);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Sample members spread across the map, a few weeks apart */
+export const FIXTURE_PROFILES: Profile[] = SAMPLE_MEMBERS.map(
+  ([fullName, username, codigo, isla], i) => {
+    const createdAt = new Date(FIXTURE_EPOCH + i * 7 * DAY_MS).toISOString();
+    const move = SAMPLE_MOVES[username];
+    return {
+      id: `00000000-0000-4000-8000-${String(i + 1).padStart(12, "0")}`,
+      full_name: fullName,
+      username,
+      avatar_url: null,
+      bio: null,
+      links: [],
+      overridden_fields: [],
+      identity_synced_at: null,
+      provincia_id: codigo ? provinciaId(codigo) : null,
+      isla_id: isla ? islaId(isla) : null,
+      municipio_codigo: SAMPLE_MUNICIPALITIES[username]?.[0] ?? null,
+      municipio_celda: SAMPLE_MUNICIPALITIES[username]?.[1] ?? null,
+      visibility: SAMPLE_VISIBILITY[username] ?? "public",
+      created_at: createdAt,
+      updated_at: move ? movedAt(createdAt, move[1]) : createdAt,
+    };
+  },
+);
+
+function movedAt(createdAt: string, days: number): string {
+  return new Date(Date.parse(createdAt) + days * DAY_MS).toISOString();
+}
+
+/** Everyone placed on joining, then the sample moves, oldest first */
+export const FIXTURE_PROVINCE_CHANGES: ProvinceChange[] = FIXTURE_PROFILES.flatMap(
+  (profile): Omit<ProvinceChange, "id">[] => {
+    if (profile.provincia_id === null) return [];
+    const move = SAMPLE_MOVES[profile.username!];
+    if (!move) {
+      return [
+        {
+          profile_id: profile.id,
+          from_provincia_id: null,
+          to_provincia_id: profile.provincia_id,
+          changed_at: profile.created_at,
+        },
+      ];
+    }
+    const [from, days] = move;
+    return [
+      {
+        profile_id: profile.id,
+        from_provincia_id: null,
+        to_provincia_id: provinciaId(from),
+        changed_at: profile.created_at,
+      },
+      {
+        profile_id: profile.id,
+        from_provincia_id: provinciaId(from),
+        to_provincia_id: profile.provincia_id,
+        changed_at: movedAt(profile.created_at, days),
+      },
+    ];
+  },
+)
+  .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+  .map((change, i) => ({ id: i + 1, ...change }));
@@ -0,0 +1,21 @@
+import { supabase } from "@/auth/supabaseClient";
+import { emitLocalProfileChange } from "@/lib/realtime";
+import { dataBackend } from "@/lib/repositories/backend";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+import { supabaseRepositories } from "@/lib/repositories/supabase";
+import type { Repositories } from "@/lib/repositories/types";
+
+export { dataBackend } from "@/lib/repositories/backend";
+
+/**
+ * Repositories for the selected backend; in-memory writes go out on the
+ * local realtime channel and reads follow the current session's visibility
+ */
+export const repositories: Repositories =
+  dataBackend === "memory"
+    ? createMemoryRepositories({
+        onChange: emitLocalProfileChange,
+        getViewerId: async () =>
+          (await supabase.auth.getSession()).data.session?.user.id ?? null,
+      })
+    : supabaseRepositories;
@@ -0,0 +1,250 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { unwrap } from "@/lib/errors";
+import type { ProfileChange } from "@/lib/realtime";
+import { FIXTURE_PROFILES, FIXTURE_PROVINCIAS } from "@/lib/repositories/fixtures";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+import type { Profile, Repositories } from "@/lib/repositories/types";
+
+const publicMember = FIXTURE_PROFILES.find(
+  (p) => p.visibility === "public" && p.provincia_id !== null,
+)!;
+const anonymousMember = FIXTURE_PROFILES.find(
+  (p) => p.visibility === "anonymous" && p.provincia_id !== null,
+)!;
+
+/** Every read the app makes, as seen by the member themselves */
+async function tracesOf(repos: Repositories, member: Profile) {
+  const all = unwrap(await repos.profiles.listAll());
+  const inProvince = unwrap(await repos.profiles.listByProvince(member.provincia_id!));
+  const searched = unwrap(await repos.profiles.search(member.full_name!, 50));
+  const anonymous = unwrap(await repos.profiles.countAnonymous());
+  const growth = unwrap(await repos.stats.growth());
+  return {
+    listed: [...all, ...inProvince, ...searched].filter((p) => p.id === member.id),
+    byId: unwrap(await repos.profiles.findById(member.id)),
+    byUsername: unwrap(await repos.profiles.findByUsername(member.username!)),
+    provinceChanges: unwrap(await repos.profiles.listProvinceChanges(member.id)),
+    anonymousTotal: anonymous.reduce((sum, c) => sum + c.total, 0),
+    // Counts every move in the store, whoever it belongs to
+    communityMoves: growth.reduce((sum, p) => sum + p.moves, 0),
+  };
+}
+
+describe("accounts.deleteAccount", () => {
+  it("confirms the deletion and leaves nothing about the member", async () => {
+    const changes: ProfileChange[] = [];
+    const repos = createMemoryRepositories({
+      onChange: (change) => changes.push(change),
+      getViewerId: async () => publicMember.id,
+    });
+    const before = await tracesOf(repos, publicMember);
+    expect(before.byId).not.toBeNull();
+    expect(before.provinceChanges).not.toEqual([]);
+
+    const result = unwrap(await repos.accounts.deleteAccount(publicMember.id));
+
+    expect(result.userId).toBe(publicMember.id);
+    expect(Number.isNaN(Date.parse(result.deletedAt))).toBe(false);
+    const after = await tracesOf(repos, publicMember);
+    expect(after.listed).toEqual([]);
+    expect(after.byId).toBeNull();
+    expect(after.byUsername).toBeNull();
+    expect(after.provinceChanges).toEqual([]);
+    const moves = before.provinceChanges.filter((c) => c.from_provincia_id !== null);
+    expect(after.communityMoves).toBe(before.communityMoves - moves.length);
+    // Other clients drop the marker too
+    expect(changes).toEqual([{ type: "DELETE", id: publicMember.id }]);
+  });
+
+  it("stops counting an anonymous member", async () => {
+    const repos = createMemoryRepositories();
+    const before = await tracesOf(repos, anonymousMember);
+
+    unwrap(await repos.accounts.deleteAccount(anonymousMember.id));
+
+    const after = await tracesOf(repos, anonymousMember);
+    expect(after.anonymousTotal).toBe(before.anonymousTotal - 1);
+    expect(after.listed).toEqual([]);
+  });
+
+  it("frees the username for someone else", async () => {
+    const repos = createMemoryRepositories();
+    const other = FIXTURE_PROFILES.find((p) => p.id !== publicMember.id)!;
+    const details = {
+      full_name: other.full_name,
+      username: publicMember.username,
+      bio: null,
+      links: [],
+      overridden_fields: ["username"],
+    };
+    expect(await repos.profiles.updateDetails(other.id, details)).toMatchObject({
+      ok: false,
+      error: { kind: "conflict" },
+    });
+
+    unwrap(await repos.accounts.deleteAccount(publicMember.id));
+
+    expect(await repos.profiles.updateDetails(other.id, details)).toEqual({
+      ok: true,
+      data: undefined,
+    });
+  });
+
+  it("fails for an account that doesn't exist", async () => {
+    const repos = createMemoryRepositories();
+    unwrap(await repos.accounts.deleteAccount(publicMember.id));
+
+    expect(await repos.accounts.deleteAccount(publicMember.id)).toMatchObject({
+      ok: false,
+      error: { kind: "not-found" },
+    });
+  });
+});
+
+describe("profiles.setLocation", () => {
+  const unplacedMember = FIXTURE_PROFILES.find((p) => p.provincia_id === null)!;
+  const [first, second, third, fourth] = FIXTURE_PROVINCIAS.filter(
+    (p) => p.id !== publicMember.provincia_id,
+  ).map((p) => ({
+    provinciaId: p.id,
+    islaId: null,
+    municipioCodigo: null,
+    municipioCelda: null,
+  }));
+  const HOUR_MS = 60 * 60 * 1000;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function reposFor(member: Profile) {
+    return createMemoryRepositories({ getViewerId: async () => member.id });
+  }
+
+  it("records the first placement without a cooldown", async () => {
+    const repos = reposFor(unplacedMember);
+
+    unwrap(await repos.profiles.setLocation(unplacedMember.id, first));
+    unwrap(await repos.profiles.setLocation(unplacedMember.id, second));
+
+    const changes = unwrap(await repos.profiles.listProvinceChanges(unplacedMember.id));
+    expect(changes).toMatchObject([
+      { from_provincia_id: null, to_provincia_id: first.provinciaId },
+      { from_provincia_id: first.provinciaId, to_provincia_id: second.provinciaId },
+    ]);
+  });
+
+  it("refuses a second move within the hour", async () => {
+    const repos = reposFor(publicMember);
+    unwrap(await repos.profiles.setLocation(publicMember.id, first));
+
+    expect(await repos.profiles.setLocation(publicMember.id, second)).toMatchObject({
+      ok: false,
+      error: { kind: "rate-limited" },
+    });
+    // Staying in the province, e.g. picking a municipality, is always fine
+    expect((await repos.profiles.setLocation(publicMember.id, first)).ok).toBe(true);
+  });
+
+  it("allows three moves a day", async () => {
+    vi.useFakeTimers();
+    const start = Date.now();
+    const repos = reposFor(publicMember);
+
+    for (const [i, location] of [first, second, third].entries()) {
+      vi.setSystemTime(start + i * 2 * HOUR_MS);
+      unwrap(await repos.profiles.setLocation(publicMember.id, location));
+    }
+    vi.setSystemTime(start + 6 * HOUR_MS);
+    expect(await repos.profiles.setLocation(publicMember.id, fourth)).toMatchObject({
+      ok: false,
+      error: { kind: "rate-limited" },
+    });
+
+    vi.setSystemTime(start + 24 * HOUR_MS + 1);
+    expect((await repos.profiles.setLocation(publicMember.id, fourth)).ok).toBe(true);
+  });
+
+  it("counts coming back after leaving the map as a move", async () => {
+    // Placed two days ago, then cleared the province (X → null)
+    const leftMember = { ...publicMember, provincia_id: null, isla_id: null };
+    const repos = createMemoryRepositories({
+      profiles: FIXTURE_PROFILES.map((p) => (p.id === leftMember.id ? leftMember : p)),
+      provinceChanges: [
+        {
+          id: 1,
+          profile_id: leftMember.id,
+          from_provincia_id: null,
+          to_provincia_id: publicMember.provincia_id!,
+          changed_at: new Date(Date.now() - 48 * HOUR_MS).toISOString(),
+        },
+      ],
+      getViewerId: async () => leftMember.id,
+    });
+
+    unwrap(await repos.profiles.setLocation(leftMember.id, first));
+
+    expect(await repos.profiles.setLocation(leftMember.id, second)).toMatchObject({
+      ok: false,
+      error: { kind: "rate-limited" },
+    });
+  });
+
+  it("deletes the moves along with the account", async () => {
+    vi.useFakeTimers();
+    const repos = reposFor(unplacedMember);
+    unwrap(await repos.profiles.setLocation(unplacedMember.id, first));
+    vi.setSystemTime(Date.now() + 2 * HOUR_MS);
+    unwrap(await repos.profiles.setLocation(unplacedMember.id, second));
+    const before = await tracesOf(repos, { ...unplacedMember, provincia_id: second.provinciaId });
+
+    unwrap(await repos.accounts.deleteAccount(unplacedMember.id));
+
+    const after = await tracesOf(repos, { ...unplacedMember, provincia_id: second.provinciaId });
+    expect(after.provinceChanges).toEqual([]);
+    // Not even as an anonymous move in the statistics
+    expect(after.communityMoves).toBe(before.communityMoves - 1);
+  });
+});
+
+describe("profiles municipality", () => {
+  const placedInMunicipality = FIXTURE_PROFILES.find(
+    (p) => p.visibility === "public" && p.municipio_codigo !== null,
+  )!;
+  const otherMember = FIXTURE_PROFILES.find(
+    (p) => p.visibility === "public" && p.id !== placedInMunicipality.id,
+  )!;
+
+  it("is only readable by its owner; others get the grid cell", async () => {
+    for (const viewer of [null, otherMember.id]) {
+      const repos = createMemoryRepositories({ getViewerId: async () => viewer });
+      const all = unwrap(await repos.profiles.listAll());
+      const byId = unwrap(await repos.profiles.findById(placedInMunicipality.id));
+
+      for (const read of [all.find((p) => p.id === placedInMunicipality.id), byId]) {
+        expect(read).toMatchObject({
+          municipio_codigo: null,
+          municipio_celda: placedInMunicipality.municipio_celda,
+        });
+      }
+    }
+
+    const own = createMemoryRepositories({
+      getViewerId: async () => placedInMunicipality.id,
+    });
+    expect(unwrap(await own.profiles.findById(placedInMunicipality.id))).toMatchObject({
+      municipio_codigo: placedInMunicipality.municipio_codigo,
+    });
+  });
+
+  it("stays out of realtime changes", async () => {
+    const changes: ProfileChange[] = [];
+    const repos = createMemoryRepositories({ onChange: (change) => changes.push(change) });
+
+    unwrap(await repos.profiles.setVisibility(placedInMunicipality.id, "members"));
+
+    expect(changes).toMatchObject([
+      { type: "UPDATE", profile: { municipio_codigo: null, municipio_celda: expect.any(String) } },
+    ]);
+  });
+});
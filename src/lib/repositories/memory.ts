@@ -0,0 +1,362 @@
+import { fail, ok } from "@/lib/errors";
+import { normalizeText } from "@/lib/utils";
+import { USERNAME_PATTERN } from "@/lib/profileDetails";
+import { provinceChangeStatus } from "@/lib/provinceChanges";
+import { canReadProfile } from "@/lib/visibility";
+import type { ProfileChange } from "@/lib/realtime";
+import {
+  FIXTURE_ISLAS,
+  FIXTURE_PROFILES,
+  FIXTURE_PROVINCE_CHANGES,
+  FIXTURE_PROVINCIAS,
+} from "@/lib/repositories/fixtures";
+import type {
+  AnonymousCount,
+  GrowthPoint,
+  Isla,
+  Profile,
+  ProfileWithProvince,
+  ProvinceChange,
+  Provincia,
+  Repositories,
+  SyncedField,
+} from "@/lib/repositories/types";
+
+export interface MemoryRepositoriesOptions {
+  provincias?: Provincia[];
+  islas?: Isla[];
+  profiles?: Profile[];
+  provinceChanges?: ProvinceChange[];
+  /** Called after every write, e.g. to feed the local realtime channel */
+  onChange?: (change: ProfileChange) => void;
+  /** Signed-in user reads are made as, standing in for RLS; nobody by default */
+  getViewerId?: () => Promise<string | null>;
+}
+
+/**
+ * Repositories backed by plain arrays, seeded from the fixtures by default.
+ * Each call starts from a fresh copy, so tests don't leak into each other.
+ */
+export function createMemoryRepositories({
+  provincias = FIXTURE_PROVINCIAS,
+  islas = FIXTURE_ISLAS,
+  profiles = FIXTURE_PROFILES,
+  provinceChanges = FIXTURE_PROVINCE_CHANGES,
+  onChange,
+  getViewerId = async () => null,
+}: MemoryRepositoriesOptions = {}): Repositories {
+  const provinceRows = provincias.map((p) => ({ ...p }));
+  const islandRows = islas.map((i) => ({ ...i }));
+  let profileRows = profiles.map((p) => ({ ...p }));
+  let changeRows = provinceChanges.map((c) => ({ ...c }));
+
+  const withProvince = (profile: Profile): ProfileWithProvince => {
+    const provincia = provinceRows.find((p) => p.id === profile.provincia_id);
+    const isla = islandRows.find((i) => i.id === profile.isla_id);
+    return {
+      ...profile,
+      provincias: provincia
+        ? { nombre: provincia.nombre, codigo_ine: provincia.codigo_ine }
+        : null,
+      islas: isla ? { nombre: isla.nombre } : null,
+    };
+  };
+
+  const byRecentUpdate = (a: Profile, b: Profile) =>
+    (b.updated_at ?? "").localeCompare(a.updated_at ?? "");
+
+  // Stands in for the select policies on profiles, and for the column
+  // grants that keep the municipality to its owner
+  const visibleRows = async () => {
+    const viewerId = await getViewerId();
+    return profileRows
+      .filter((p) => canReadProfile(p, viewerId))
+      .map((p) => (p.id === viewerId ? p : { ...p, municipio_codigo: null }));
+  };
+
+  // Realtime only carries the columns everyone may read
+  const publicRow = (profile: Profile): Profile => ({ ...profile, municipio_codigo: null });
+
+  const update = (userId: string, changes: Partial<Profile>) => {
+    const current = profileRows.find((p) => p.id === userId);
+    if (!current) return null;
+    const updated = { ...current, ...changes, updated_at: new Date().toISOString() };
+    profileRows = profileRows.map((p) => (p.id === userId ? updated : p));
+    onChange?.({ type: "UPDATE", profile: publicRow(updated) });
+    return updated;
+  };
+
+  return {
+    profiles: {
+      listAll: async () =>
+        ok((await visibleRows()).sort(byRecentUpdate).map(withProvince)),
+
+      listNewest: async (maxResults) =>
+        ok(
+          (await visibleRows())
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            .slice(0, maxResults)
+            .map(withProvince),
+        ),
+
+      listByProvince: async (provinciaId) =>
+        ok(
+          (await visibleRows())
+            .filter((p) => p.provincia_id === provinciaId)
+            .sort(byRecentUpdate)
+            .map(withProvince),
+        ),
+
+      findByUsername: async (username) => {
+        const wanted = username.toLowerCase();
+        const found = (await visibleRows()).find(
+          (p) => p.username?.toLowerCase() === wanted,
+        );
+        return ok(found ? withProvince(found) : null);
+      },
+
+      search: async (query, maxResults) => {
+        const needle = normalizeText(query.replace(/^@/, ""));
+        if (!needle) return ok([]);
+        const matches = (await visibleRows())
+          .filter(
+            (p) =>
+              normalizeText(p.full_name ?? "").startsWith(needle) ||
+              normalizeText(p.full_name ?? "")
+                .split(/\s+/)
+                .some((word) => word.startsWith(needle)) ||
+              normalizeText(p.username ?? "").startsWith(needle),
+          )
+          .sort((a, b) => (a.full_name ?? "").localeCompare(b.full_name ?? "", "es"))
+          .slice(0, maxResults)
+          .map(withProvince);
+        return ok(matches);
+      },
+
+      findById: async (userId) => {
+        const found = (await visibleRows()).find((p) => p.id === userId);
+        return ok(found ? { ...found } : null);
+      },
+
+      setLocation: async (
+        userId,
+        { provinciaId, islaId, municipioCodigo, municipioCelda },
+      ) => {
+        const current = profileRows.find((p) => p.id === userId);
+        if (!current) return fail("not-found", "Perfil no encontrado");
+        // Same outcome as the provincia_id foreign key
+        const provincia = provinceRows.find((p) => p.id === provinciaId);
+        if (!provincia) {
+          return fail("validation", "Provincia no encontrada");
+        }
+        // The database derives the province from the municipality instead
+        if (
+          municipioCodigo !== null &&
+          municipioCodigo.slice(0, 2) !== provincia.codigo_ine
+        ) {
+          return fail("validation", "El municipio no pertenece a esa provincia");
+        }
+        // Same outcome as the (isla_id, provincia_id) foreign key
+        if (
+          islaId !== null &&
+          !islandRows.some((i) => i.id === islaId && i.provincia_id === provinciaId)
+        ) {
+          return fail("validation", "La isla no pertenece a esa provincia");
+        }
+        // Same outcome as the province change triggers
+        if (current.provincia_id !== provinciaId) {
+          const history = changeRows.filter((c) => c.profile_id === userId);
+          if (history.length > 0 && !provinceChangeStatus(history).allowed) {
+            return fail("rate-limited", "Cambio de provincia demasiado seguido");
+          }
+          changeRows.push({
+            id: Math.max(0, ...changeRows.map((c) => c.id)) + 1,
+            profile_id: userId,
+            from_provincia_id: current.provincia_id,
+            to_provincia_id: provinciaId,
+            changed_at: new Date().toISOString(),
+          });
+        }
+        update(userId, {
+          provincia_id: provinciaId,
+          isla_id: islaId,
+          municipio_codigo: municipioCodigo,
+          municipio_celda: municipioCelda,
+        });
+        return ok(undefined);
+      },
+
+      setVisibility: async (userId, visibility) =>
+        update(userId, { visibility })
+          ? ok(undefined)
+          : fail("not-found", "Perfil no encontrado"),
+
+      updateDetails: async (userId, details) => {
+        // Same outcome as the unique index on lower(username)
+        const wanted = details.username?.toLowerCase();
+        if (
+          wanted &&
+          profileRows.some((p) => p.id !== userId && p.username?.toLowerCase() === wanted)
+        ) {
+          return fail("conflict", "Nombre de usuario ya en uso");
+        }
+        return update(userId, details)
+          ? ok(undefined)
+          : fail("not-found", "Perfil no encontrado");
+      },
+
+      // Mirrors sync_profile_identity, which doesn't bump updated_at either
+      syncIdentity: async (userId, identity) => {
+        const current = profileRows.find((p) => p.id === userId);
+        if (!current) return ok(undefined);
+        const keeps = (field: SyncedField) => current.overridden_fields.includes(field);
+        const username = identity.username;
+        const usernameFree =
+          username !== null &&
+          USERNAME_PATTERN.test(username) &&
+          !profileRows.some(
+            (p) => p.id !== userId && p.username?.toLowerCase() === username.toLowerCase(),
+          );
+        const synced: Profile = {
+          ...current,
+          full_name: keeps("full_name")
+            ? current.full_name
+            : identity.full_name?.trim() || current.full_name,
+          avatar_url: keeps("avatar_url")
+            ? current.avatar_url
+            : identity.avatar_url || current.avatar_url,
+          username: keeps("username") || !usernameFree ? current.username : username,
+          identity_synced_at: new Date().toISOString(),
+        };
+        profileRows = profileRows.map((p) => (p.id === userId ? synced : p));
+        onChange?.({ type: "UPDATE", profile: publicRow(synced) });
+        return ok(undefined);
+      },
+
+      // Stands in for the select policy: only the member's own rows
+      listProvinceChanges: async (userId) => {
+        if ((await getViewerId()) !== userId) return ok([]);
+        return ok(
+          changeRows
+            .filter((c) => c.profile_id === userId)
+            .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+            .map((c) => ({ ...c })),
+        );
+      },
+
+      countAnonymous: async () => {
+        const viewerId = await getViewerId();
+        const totals = new Map<string, AnonymousCount>();
+        for (const p of profileRows) {
+          const counted =
+            p.visibility === "anonymous" ||
+            (p.visibility === "members" && viewerId === null);
+          if (!counted || p.id === viewerId || p.provincia_id === null) continue;
+          const key = `${p.provincia_id}:${p.isla_id}`;
+          const entry = totals.get(key) ?? {
+            provincia_id: p.provincia_id,
+            isla_id: p.isla_id,
+            total: 0,
+          };
+          entry.total += 1;
+          totals.set(key, entry);
+        }
+        return ok([...totals.values()]);
+      },
+    },
+
+    provinces: {
+      listAll: async () =>
+        ok(
+          [...provinceRows]
+            .sort((a, b) => (a.codigo_ine ?? "").localeCompare(b.codigo_ine ?? ""))
+            .map((p) => ({ ...p })),
+        ),
+
+      findByCode: async (codigoIne) => {
+        const found = provinceRows.find((p) => p.codigo_ine === codigoIne);
+        return ok(found ? { ...found } : null);
+      },
+
+      listIslands: async () =>
+        ok(
+          [...islandRows]
+            .sort((a, b) => a.nombre.localeCompare(b.nombre, "es"))
+            .map((i) => ({ ...i })),
+        ),
+    },
+
+    // Mirror province_member_totals and community_growth, which count
+    // everyone but hidden members whoever is asking
+    stats: {
+      provinceTotals: async () => {
+        const totals = new Map<number, number>();
+        for (const p of profileRows) {
+          if (p.provincia_id === null || p.visibility === "hidden") continue;
+          totals.set(p.provincia_id, (totals.get(p.provincia_id) ?? 0) + 1);
+        }
+        return ok(
+          [...totals].map(([provincia_id, total]) => ({ provincia_id, total })),
+        );
+      },
+
+      growth: async () => {
+        const months = new Map<string, GrowthPoint>();
+        const pointAt = (timestamp: string) => {
+          const month = `${timestamp.slice(0, 7)}-01`;
+          const point = months.get(month) ?? { month, joined: 0, moves: 0 };
+          months.set(month, point);
+          return point;
+        };
+        const hidden = new Set(
+          profileRows.filter((p) => p.visibility === "hidden").map((p) => p.id),
+        );
+        for (const p of profileRows) {
+          if (!hidden.has(p.id)) pointAt(p.created_at).joined += 1;
+        }
+        for (const c of changeRows) {
+          if (c.from_provincia_id === null) continue;
+          if (hidden.has(c.profile_id)) continue;
+          pointAt(c.changed_at).moves += 1;
+        }
+        return ok([...months.values()].sort((a, b) => a.month.localeCompare(b.month)));
+      },
+
+      // Mirrors community_timeline: unreadable members move anonymously
+      timeline: async () => {
+        const viewerId = await getViewerId();
+        const members = new Map(profileRows.map((p) => [p.id, p]));
+        return ok(
+          changeRows
+            .flatMap((c) => {
+              const member = members.get(c.profile_id);
+              if (!member || member.visibility === "hidden") return [];
+              return [
+                {
+                  changed_at: c.changed_at,
+                  profile_id: canReadProfile(member, viewerId) ? member.id : null,
+                  from_provincia_id: c.from_provincia_id,
+                  to_provincia_id: c.to_provincia_id,
+                },
+              ];
+            })
+            .sort((a, b) => a.changed_at.localeCompare(b.changed_at)),
+        );
+      },
+    },
+
+    accounts: {
+      // There's no auth user here: the rows about the user are all there is
+      deleteAccount: async (userId) => {
+        if (!profileRows.some((p) => p.id === userId)) {
+          return fail("not-found", "Cuenta no encontrada");
+        }
+        profileRows = profileRows.filter((p) => p.id !== userId);
+        // The history goes with the account, as in delete_my_account
+        changeRows = changeRows.filter((c) => c.profile_id !== userId);
+        onChange?.({ type: "DELETE", id: userId });
+        return ok({ userId, deletedAt: new Date().toISOString() });
+      },
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+vi.mock("@/auth/supabaseClient", () => ({ supabase: { rpc } }));
+
+import {
+  supabaseAccountsRepository,
+  supabaseStatsRepository,
+} from "@/lib/repositories/supabase";
+
+/** What PostgREST answers, as the client hands it over */
+function response(data: unknown, error: object | null = null, status = 200) {
+  return { data, error, status };
+}
+
+beforeEach(() => {
+  rpc.mockReset();
+});
+
+describe("accounts.deleteAccount", () => {
+  it("returns the deleted account", async () => {
+    rpc.mockResolvedValue(
+      response([{ user_id: "u1", deleted_at: "2026-10-19T10:00:00.000Z" }]),
+    );
+
+    expect(await supabaseAccountsRepository.deleteAccount("u1")).toEqual({
+      ok: true,
+      data: { userId: "u1", deletedAt: "2026-10-19T10:00:00.000Z" },
+    });
+    expect(rpc).toHaveBeenCalledWith("delete_my_account");
+  });
+
+  it("reports an account that is already gone as not found", async () => {
+    rpc.mockResolvedValue(response([]));
+
+    expect(await supabaseAccountsRepository.deleteAccount("u1")).toMatchObject({
+      ok: false,
+      error: { kind: "not-found" },
+    });
+  });
+
+  it("passes on what the function raised", async () => {
+    rpc.mockResolvedValue(
+      response(null, { code: "42501", message: "permission denied" }, 401),
+    );
+
+    expect(await supabaseAccountsRepository.deleteAccount("u1")).toMatchObject({
+      ok: false,
+      error: { kind: "rls-denied" },
+    });
+  });
+});
+
+describe("error classification", () => {
+  const failWith = async (error: object, status: number) => {
+    rpc.mockResolvedValue(response(null, error, status));
+    return supabaseStatsRepository.provinceTotals();
+  };
+
+  it("tells the province change limit from an overloaded server", async () => {
+    // PostgREST answers 429 for both
+    expect(
+      await failWith({ code: "PT429", message: "Cambio de provincia demasiado seguido" }, 429),
+    ).toMatchObject({ ok: false, error: { kind: "rate-limited", transient: false } });
+    expect(await failWith({ code: "", message: "Too Many Requests" }, 429)).toMatchObject({
+      ok: false,
+      error: { kind: "network", transient: true },
+    });
+  });
+
+  it("treats a request that never got an answer as a network failure", async () => {
+    expect(await failWith({ code: "", message: "Failed to fetch" }, 0)).toMatchObject({
+      ok: false,
+      error: { kind: "network" },
+    });
+  });
+});
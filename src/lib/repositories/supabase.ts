@@ -0,0 +1,266 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/auth/supabaseClient";
+import {
+  DataError,
+  fail,
+  ok,
+  type DataErrorKind,
+  type Result,
+} from "@/lib/errors";
+import type {
+  AccountsRepository,
+  ProfileWithProvince,
+  ProfilesRepository,
+  ProvincesRepository,
+  Repositories,
+  StatsRepository,
+} from "@/lib/repositories/types";
+
+/** Every column others may read; municipio_codigo is for its owner only */
+const PROFILE_COLUMNS =
+  "id, full_name, avatar_url, username, bio, links, overridden_fields, identity_synced_at, provincia_id, isla_id, municipio_celda, visibility, created_at, updated_at";
+
+const PROFILE_WITH_PROVINCE_COLUMNS =
+  `${PROFILE_COLUMNS}, provincias(nombre, codigo_ine), islas(nombre)` as const;
+
+const PROVINCIA_COLUMNS = "id, nombre, codigo_ine, comunidad_autonoma";
+
+/** Supabase returns FK joins as arrays; normalize to single object */
+function normalizeProvinceJoin(data: unknown[] | null): ProfileWithProvince[] {
+  return ((data ?? []) as ProfileWithProvince[]).map((p) => ({
+    ...p,
+    municipio_codigo: null,
+    provincias: Array.isArray(p.provincias)
+      ? (p.provincias[0] ?? null)
+      : p.provincias,
+    islas: Array.isArray(p.islas) ? (p.islas[0] ?? null) : p.islas,
+  }));
+}
+
+/** Map a PostgREST failure onto the app's error kinds */
+function classifyError(error: PostgrestError, status: number): DataError {
+  let kind: DataErrorKind;
+  // Raised on purpose by a trigger; not the transient kind of 429
+  if (error.code === "PT429") {
+    kind = "rate-limited";
+  } else if (status === 0 || status === 408 || status === 429 || status >= 500) {
+    // status 0 is a fetch that never got a response
+    kind = "network";
+  } else if (error.code === "42501" || status === 403) {
+    // PostgREST answers 401 for anonymous RLS denials, so check the code first
+    kind = "rls-denied";
+  } else if (status === 401 || error.code?.startsWith("PGRST30")) {
+    kind = "auth";
+  } else if (status === 404 || error.code === "PGRST116") {
+    kind = "not-found";
+  } else if (status === 409 || error.code === "23505") {
+    // Unique violation
+    kind = "conflict";
+  } else {
+    kind = "validation";
+  }
+  return new DataError(kind, error.message);
+}
+
+type PostgrestResponse<T> = {
+  data: T | null;
+  error: PostgrestError | null;
+  status: number;
+};
+
+function toResult<T, R>(
+  { data, error, status }: PostgrestResponse<T>,
+  map: (data: T | null) => R,
+): Result<R> {
+  return error ? { ok: false, error: classifyError(error, status) } : ok(map(data));
+}
+
+export const supabaseProfilesRepository: ProfilesRepository = {
+  listAll: async () =>
+    toResult(
+      await supabase
+        .from("profiles")
+        .select(PROFILE_WITH_PROVINCE_COLUMNS)
+        .order("updated_at", { ascending: false }),
+      normalizeProvinceJoin,
+    ),
+
+  listNewest: async (maxResults) =>
+    toResult(
+      await supabase
+        .from("profiles")
+        .select(PROFILE_WITH_PROVINCE_COLUMNS)
+        .order("created_at", { ascending: false })
+        .limit(maxResults),
+      normalizeProvinceJoin,
+    ),
+
+  listByProvince: async (provinciaId) =>
+    toResult(
+      await supabase
+        .from("profiles")
+        .select(PROFILE_WITH_PROVINCE_COLUMNS)
+        .eq("provincia_id", provinciaId)
+        .order("updated_at", { ascending: false }),
+      normalizeProvinceJoin,
+    ),
+
+  findByUsername: async (username) => {
+    // Escape LIKE wildcards: X handles commonly contain underscores
+    const pattern = username.replace(/[\\%_]/g, (c) => `\\${c}`);
+    return toResult(
+      await supabase
+        .from("profiles")
+        .select(PROFILE_WITH_PROVINCE_COLUMNS)
+        .ilike("username", pattern)
+        .limit(1),
+      (data) => normalizeProvinceJoin(data)[0] ?? null,
+    );
+  },
+
+  search: async (query, maxResults) =>
+    toResult(
+      await supabase
+        .rpc("search_profiles", { query, max_results: maxResults })
+        .select(PROFILE_WITH_PROVINCE_COLUMNS),
+      normalizeProvinceJoin,
+    ),
+
+  findById: async (userId) => {
+    const response = await supabase
+      .from("profiles")
+      .select(PROFILE_COLUMNS)
+      .eq("id", userId)
+      .maybeSingle();
+    const profile = response.data;
+    if (response.error || !profile) return toResult(response, () => null);
+    // Null unless the profile is the caller's own
+    const municipio = await supabase.rpc("profile_municipio", { profile_id: userId });
+    return toResult(municipio, (codigo) => ({ ...profile, municipio_codigo: codigo }));
+  },
+
+  setLocation: async (userId, { provinciaId, islaId, municipioCodigo, municipioCelda }) => {
+    const response = await supabase
+      .from("profiles")
+      .update({
+        provincia_id: provinciaId,
+        isla_id: islaId,
+        municipio_codigo: municipioCodigo,
+        municipio_celda: municipioCelda,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", userId)
+      .select("id");
+    // RLS hides rows the user can't update, so those look like no match
+    if (!response.error && (response.data ?? []).length === 0) {
+      return fail("not-found", "Perfil no encontrado");
+    }
+    return toResult(response, () => undefined);
+  },
+
+  setVisibility: async (userId, visibility) => {
+    const response = await supabase
+      .from("profiles")
+      .update({ visibility, updated_at: new Date().toISOString() })
+      .eq("id", userId)
+      .select("id");
+    if (!response.error && (response.data ?? []).length === 0) {
+      return fail("not-found", "Perfil no encontrado");
+    }
+    return toResult(response, () => undefined);
+  },
+
+  updateDetails: async (userId, details) => {
+    const response = await supabase
+      .from("profiles")
+      .update({ ...details, updated_at: new Date().toISOString() })
+      .eq("id", userId)
+      .select("id");
+    if (!response.error && (response.data ?? []).length === 0) {
+      return fail("not-found", "Perfil no encontrado");
+    }
+    return toResult(response, () => undefined);
+  },
+
+  // The function only touches the caller's row, so the id isn't sent
+  syncIdentity: async (_userId, identity) =>
+    toResult(
+      await supabase.rpc("sync_profile_identity", {
+        new_full_name: identity.full_name ?? "",
+        new_avatar_url: identity.avatar_url ?? "",
+        new_username: identity.username ?? "",
+      }),
+      () => undefined,
+    ),
+
+  listProvinceChanges: async (userId) =>
+    toResult(
+      await supabase
+        .from("profile_province_changes")
+        .select("*")
+        .eq("profile_id", userId)
+        .order("changed_at"),
+      (data) => data ?? [],
+    ),
+
+  countAnonymous: async () =>
+    toResult(await supabase.rpc("anonymous_profile_counts"), (data) => data ?? []),
+};
+
+export const supabaseProvincesRepository: ProvincesRepository = {
+  listAll: async () =>
+    toResult(
+      await supabase.from("provincias").select(PROVINCIA_COLUMNS).order("codigo_ine"),
+      (data) => data ?? [],
+    ),
+
+  findByCode: async (codigoIne) =>
+    toResult(
+      await supabase
+        .from("provincias")
+        .select(PROVINCIA_COLUMNS)
+        .eq("codigo_ine", codigoIne)
+        .maybeSingle(),
+      (data) => data,
+    ),
+
+  listIslands: async () =>
+    toResult(
+      await supabase.from("islas").select("id, nombre, provincia_id").order("nombre"),
+      (data) => data ?? [],
+    ),
+};
+
+export const supabaseAccountsRepository: AccountsRepository = {
+  // The function deletes whoever is signed in, so the id isn't sent
+  deleteAccount: async () => {
+    const response = await supabase.rpc("delete_my_account");
+    const [row] = response.data ?? [];
+    // No row back: the account was already gone
+    if (!response.error && !row) {
+      return fail("not-found", "Cuenta no encontrada");
+    }
+    return toResult(response, () => ({
+      userId: row.user_id,
+      deletedAt: row.deleted_at,
+    }));
+  },
+};
+
+export const supabaseStatsRepository: StatsRepository = {
+  provinceTotals: async () =>
+    toResult(await supabase.rpc("province_member_totals"), (data) => data ?? []),
+
+  growth: async () =>
+    toResult(await supabase.rpc("community_growth"), (data) => data ?? []),
+
+  timeline: async () =>
+    toResult(await supabase.rpc("community_timeline"), (data) => data ?? []),
+};
+
+export const supabaseRepositories: Repositories = {
+  profiles: supabaseProfilesRepository,
+  provinces: supabaseProvincesRepository,
+  accounts: supabaseAccountsRepository,
+  stats: supabaseStatsRepository,
+};
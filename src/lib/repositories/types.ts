@@ -0,0 +1,163 @@
+import type { Enums, Tables } from "@/lib/database.types";
+import type { Result } from "@/lib/errors";
+
+/** Profile row inferred from Supabase schema */
+export type Profile = Tables<"profiles">;
+
+/** Who can see a member: everyone, signed-in members, nobody but counted, nobody */
+export type ProfileVisibility = Enums<"profile_visibility">;
+
+/** Members the viewer can't read but who still count, per province and island */
+export interface AnonymousCount {
+  provincia_id: number;
+  isla_id: number | null;
+  total: number;
+}
+
+/** Provincia row inferred from Supabase schema */
+export type Provincia = Tables<"provincias">;
+
+/** Island row, for provinces the map splits into islands */
+export type Isla = Tables<"islas">;
+
+/**
+ * Where a member placed themselves. Island and municipality are optional
+ * refinements; null clears them.
+ */
+export interface ProfileLocation {
+  provinciaId: number;
+  islaId: number | null;
+  /** INE code; its first two digits must match the province */
+  municipioCodigo: string | null;
+  /** The municipality's grid cell, "lat,lng"; all that others get to read */
+  municipioCelda: string | null;
+}
+
+/**
+ * A member placing themselves (no `from_provincia_id`) or moving. Deleted
+ * along with the account.
+ */
+export type ProvinceChange = Tables<"profile_province_changes">;
+
+/** Profile fields that follow the X identity unless the member edits them */
+export type SyncedField = "full_name" | "avatar_url" | "username";
+
+/** Latest values from the OAuth identity; null when X didn't send one */
+export type ProfileIdentity = Pick<Profile, SyncedField>;
+
+/**
+ * What members edit about themselves from the settings page, along with
+ * which synced fields they've made their own.
+ */
+export type ProfileDetails = Pick<
+  Profile,
+  "full_name" | "username" | "bio" | "links" | "overridden_fields"
+>;
+
+/** Profile joined with provincia name and INE code, and island name */
+export type ProfileWithProvince = Profile & {
+  provincias: Pick<Provincia, "nombre" | "codigo_ine"> | null;
+  islas: Pick<Isla, "nombre"> | null;
+};
+
+/**
+ * Every read and write on `profiles`; lookups resolve to null when nothing
+ * matches. Reads only return rows the viewer may see, following `visibility`.
+ */
+export interface ProfilesRepository {
+  /** All profiles, most recently updated first */
+  listAll: () => Promise<Result<ProfileWithProvince[]>>;
+  /** Latest sign-ups, newest first */
+  listNewest: (maxResults: number) => Promise<Result<ProfileWithProvince[]>>;
+  listByProvince: (provinciaId: number) => Promise<Result<ProfileWithProvince[]>>;
+  /** Case-insensitive exact match */
+  findByUsername: (username: string) => Promise<Result<ProfileWithProvince | null>>;
+  /** Prefix match on any word of the name or on the username, accent-insensitive */
+  search: (
+    query: string,
+    maxResults: number,
+  ) => Promise<Result<ProfileWithProvince[]>>;
+  findById: (userId: string) => Promise<Result<Profile | null>>;
+  /**
+   * Records the move when the province changes. Fails with "rate-limited"
+   * during the cooldown or past the daily limit, and with "not-found" when
+   * no row was updated
+   */
+  setLocation: (userId: string, location: ProfileLocation) => Promise<Result<void>>;
+  /** Fails with "not-found" when no row was updated */
+  setVisibility: (
+    userId: string,
+    visibility: ProfileVisibility,
+  ) => Promise<Result<void>>;
+  /** Fails with "conflict" when another member already has the username */
+  updateDetails: (userId: string, details: ProfileDetails) => Promise<Result<void>>;
+  /**
+   * Copy the identity onto the profile, except for overridden fields and a
+   * username another member already has; records when it ran
+   */
+  syncIdentity: (userId: string, identity: ProfileIdentity) => Promise<Result<void>>;
+  /** The member's own province history, oldest first; others' is never readable */
+  listProvinceChanges: (userId: string) => Promise<Result<ProvinceChange[]>>;
+  /** Counts of the members hidden from the viewer that still show in totals */
+  countAnonymous: () => Promise<Result<AnonymousCount[]>>;
+}
+
+/** Reads on `provincias` and `islas`, which the app never writes */
+export interface ProvincesRepository {
+  /** Ordered by INE code */
+  listAll: () => Promise<Result<Provincia[]>>;
+  findByCode: (codigoIne: string) => Promise<Result<Provincia | null>>;
+  listIslands: () => Promise<Result<Isla[]>>;
+}
+
+/** Members placed in a province, visible or not; hidden ones aren't counted */
+export interface ProvinceTotal {
+  provincia_id: number;
+  total: number;
+}
+
+/** Activity in one calendar month; `month` is its first day, YYYY-MM-DD */
+export interface GrowthPoint {
+  month: string;
+  joined: number;
+  /** Moves between provinces, first placements aside */
+  moves: number;
+}
+
+/**
+ * A placement or move in the community's history; `profile_id` is null when
+ * the viewer may not know whose it was
+ */
+export type TimelineEvent = Pick<
+  ProvinceChange,
+  "changed_at" | "from_provincia_id" | "to_provincia_id"
+> & { profile_id: string | null };
+
+/** Aggregates over the whole community, computed where the data lives */
+export interface StatsRepository {
+  /** Only provinces with members */
+  provinceTotals: () => Promise<Result<ProvinceTotal[]>>;
+  /** Months with any activity, oldest first */
+  growth: () => Promise<Result<GrowthPoint[]>>;
+  /** Moves of current, counted members, oldest first */
+  timeline: () => Promise<Result<TimelineEvent[]>>;
+}
+
+/** Confirmation that an account is gone */
+export interface AccountDeletion {
+  userId: string;
+  deletedAt: string;
+}
+
+/** The signed-in account as a whole, beyond its profile */
+export interface AccountsRepository {
+  /** Remove the user, their X identity and every row about them */
+  deleteAccount: (userId: string) => Promise<Result<AccountDeletion>>;
+}
+
+export interface Repositories {
+  profiles: ProfilesRepository;
+  provinces: ProvincesRepository;
+  accounts: AccountsRepository;
+  stats: StatsRepository;
+}
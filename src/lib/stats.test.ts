@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { Provincia } from "@/lib/db";
+import { cumulativeGrowth, rankCommunities, rankProvinces, regionShares } from "@/lib/stats";
+
+const provincias: Provincia[] = [
+  { id: 1, nombre: "Barcelona", codigo_ine: "08", comunidad_autonoma: "Cataluña" },
+  { id: 2, nombre: "Girona", codigo_ine: "17", comunidad_autonoma: "Cataluña" },
+  { id: 3, nombre: "Madrid", codigo_ine: "28", comunidad_autonoma: "Comunidad de Madrid" },
+  { id: 4, nombre: "Sevilla", codigo_ine: "41", comunidad_autonoma: "Andalucía" },
+  { id: 5, nombre: "Illes Balears", codigo_ine: "07", comunidad_autonoma: "Illes Balears" },
+];
+
+describe("rankProvinces", () => {
+  it("shares positions on ties and orders tied rows by name", () => {
+    const rows = rankProvinces(
+      [
+        { provincia_id: 4, total: 2 },
+        { provincia_id: 3, total: 5 },
+        { provincia_id: 1, total: 5 },
+        { provincia_id: 2, total: 1 },
+      ],
+      provincias,
+    );
+
+    expect(rows.map((r) => [r.rank, r.name, r.total])).toEqual([
+      [1, "Barcelona", 5],
+      [1, "Madrid", 5],
+      [3, "Sevilla", 2],
+      [4, "Girona", 1],
+    ]);
+    expect(rows[0]).toMatchObject({ codigo: "08", share: 5 / 13 });
+  });
+
+  it("is empty without members", () => {
+    expect(rankProvinces([], provincias)).toEqual([]);
+  });
+});
+
+describe("rankCommunities", () => {
+  it("adds up the provinces of each community", () => {
+    const rows = rankCommunities(
+      [
+        { provincia_id: 1, total: 2 },
+        { provincia_id: 2, total: 2 },
+        { provincia_id: 3, total: 4 },
+        { provincia_id: 4, total: 1 },
+      ],
+      provincias,
+    );
+
+    expect(rows.map((r) => [r.rank, r.name, r.total, r.codigo])).toEqual([
+      [1, "Cataluña", 4, null],
+      [1, "Comunidad de Madrid", 4, null],
+      [3, "Andalucía", 1, null],
+    ]);
+  });
+
+  it("is empty without members", () => {
+    expect(rankCommunities([], provincias)).toEqual([]);
+  });
+});
+
+describe("regionShares", () => {
+  it("keeps every region, even without members", () => {
+    expect(regionShares([{ provincia_id: 5, total: 1 }], provincias)).toEqual([
+      { region: "peninsula", total: 0, share: 0 },
+      { region: "islands", total: 1, share: 1 },
+      { region: "ceuta-melilla", total: 0, share: 0 },
+    ]);
+    expect(regionShares([], provincias).every((r) => r.share === 0)).toBe(true);
+  });
+});
+
+describe("cumulativeGrowth", () => {
+  it("fills quiet months and keeps a running total", () => {
+    expect(
+      cumulativeGrowth([
+        { month: "2025-11-01", joined: 3, moves: 0 },
+        { month: "2026-02-01", joined: 2, moves: 1 },
+      ]),
+    ).toEqual([
+      { month: "2025-11-01", joined: 3, moves: 0, members: 3 },
+      { month: "2025-12-01", joined: 0, moves: 0, members: 3 },
+      { month: "2026-01-01", joined: 0, moves: 0, members: 3 },
+      { month: "2026-02-01", joined: 2, moves: 1, members: 5 },
+    ]);
+  });
+
+  it("is empty without activity", () => {
+    expect(cumulativeGrowth([])).toEqual([]);
+  });
+});
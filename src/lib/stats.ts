@@ -0,0 +1,128 @@
+import type { GrowthPoint, ProvinceTotal, Provincia } from "@/lib/db";
+import { getProvinceInfo, ISLANDS } from "@/lib/provinces";
+
+/** One line of a ranking; ties share a position */
+export interface RankingRow {
+  rank: number;
+  name: string;
+  total: number;
+  /** Fraction of all placed members */
+  share: number;
+  /** INE code, for rows that are a single province */
+  codigo: string | null;
+}
+
+function communityOf(provincia: Provincia): string {
+  return (
+    provincia.comunidad_autonoma ??
+    getProvinceInfo(provincia.codigo_ine ?? "")?.comunidad ??
+    provincia.nombre
+  );
+}
+
+/** Largest first, then by name; 1, 2, 2, 4 on ties */
+function ranked(entries: Omit<RankingRow, "rank" | "share">[]): RankingRow[] {
+  const sum = entries.reduce((acc, e) => acc + e.total, 0);
+  const sorted = [...entries].sort(
+    (a, b) => b.total - a.total || a.name.localeCompare(b.name, "es"),
+  );
+  return sorted.map((entry) => ({
+    ...entry,
+    rank: sorted.findIndex((e) => e.total === entry.total) + 1,
+    share: sum ? entry.total / sum : 0,
+  }));
+}
+
+export function rankProvinces(
+  totals: ProvinceTotal[],
+  provincias: Provincia[],
+): RankingRow[] {
+  return ranked(
+    totals.flatMap(({ provincia_id, total }) => {
+      const provincia = provincias.find((p) => p.id === provincia_id);
+      return provincia
+        ? [{ name: provincia.nombre, total, codigo: provincia.codigo_ine }]
+        : [];
+    }),
+  );
+}
+
+export function rankCommunities(
+  totals: ProvinceTotal[],
+  provincias: Provincia[],
+): RankingRow[] {
+  const byCommunity = new Map<string, number>();
+  for (const { provincia_id, total } of totals) {
+    const provincia = provincias.find((p) => p.id === provincia_id);
+    if (!provincia) continue;
+    const community = communityOf(provincia);
+    byCommunity.set(community, (byCommunity.get(community) ?? 0) + total);
+  }
+  return ranked(
+    [...byCommunity].map(([name, total]) => ({ name, total, codigo: null })),
+  );
+}
+
+export type Region = "peninsula" | "islands" | "ceuta-melilla";
+
+export const REGION_LABELS: Record<Region, string> = {
+  peninsula: "Península",
+  islands: "Baleares y Canarias",
+  "ceuta-melilla": "Ceuta y Melilla",
+};
+
+const ISLAND_PROVINCES = new Set(ISLANDS.map((i) => i.codigo));
+const AFRICAN_CITIES = new Set(["51", "52"]);
+
+export function regionOf(codigo: string | null): Region {
+  if (codigo && ISLAND_PROVINCES.has(codigo)) return "islands";
+  if (codigo && AFRICAN_CITIES.has(codigo)) return "ceuta-melilla";
+  return "peninsula";
+}
+
+/** Members per region, in a fixed order so the bar keeps its layout */
+export function regionShares(
+  totals: ProvinceTotal[],
+  provincias: Provincia[],
+): { region: Region; total: number; share: number }[] {
+  const counts: Record<Region, number> = { peninsula: 0, islands: 0, "ceuta-melilla": 0 };
+  for (const { provincia_id, total } of totals) {
+    const provincia = provincias.find((p) => p.id === provincia_id);
+    if (provincia) counts[regionOf(provincia.codigo_ine)] += total;
+  }
+  const sum = counts.peninsula + counts.islands + counts["ceuta-melilla"];
+  return (Object.keys(counts) as Region[]).map((region) => ({
+    region,
+    total: counts[region],
+    share: sum ? counts[region] / sum : 0,
+  }));
+}
+
+/** A month of growth with the running member count */
+export interface GrowthMonth extends GrowthPoint {
+  members: number;
+}
+
+/** Every month from the first with activity to the last, quiet ones included */
+export function cumulativeGrowth(points: GrowthPoint[]): GrowthMonth[] {
+  if (points.length === 0) return [];
+  const byMonth = new Map(points.map((p) => [p.month.slice(0, 7), p]));
+  const [firstYear, firstMonth] = points[0].month.split("-").map(Number);
+  const last = points.at(-1)!.month.slice(0, 7);
+
+  const months: GrowthMonth[] = [];
+  let members = 0;
+  for (let i = 0; ; i++) {
+    const date = new Date(Date.UTC(firstYear, firstMonth - 1 + i, 1));
+    const key = date.toISOString().slice(0, 7);
+    const point = byMonth.get(key);
+    members += point?.joined ?? 0;
+    months.push({
+      month: `${key}-01`,
+      joined: point?.joined ?? 0,
+      moves: point?.moves ?? 0,
+      members,
+    });
+    if (key >= last) return months;
+  }
+}
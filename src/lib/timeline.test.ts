@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { ProfileWithProvince, Provincia, TimelineEvent } from "@/lib/db";
+import { FIXTURE_PROFILES } from "@/lib/repositories/fixtures";
+import {
+  formatTimelineDate,
+  parseTimelineDate,
+  timelineSnapshot,
+  timelineStart,
+} from "@/lib/timeline";
+
+const provincias: Provincia[] = [
+  { id: 1, nombre: "Barcelona", codigo_ine: "08", comunidad_autonoma: "Cataluña" },
+  { id: 2, nombre: "Girona", codigo_ine: "17", comunidad_autonoma: "Cataluña" },
+  { id: 3, nombre: "Madrid", codigo_ine: "28", comunidad_autonoma: "Comunidad de Madrid" },
+  { id: 4, nombre: "Sevilla", codigo_ine: "41", comunidad_autonoma: "Andalucía" },
+];
+
+function member(
+  id: string,
+  createdAt: string,
+  provincia: Provincia,
+): ProfileWithProvince {
+  return {
+    ...FIXTURE_PROFILES[0],
+    id,
+    created_at: createdAt,
+    provincia_id: provincia.id,
+    isla_id: null,
+    municipio_codigo: null,
+    municipio_celda: "40.475,-3.675",
+    provincias: { nombre: provincia.nombre, codigo_ine: provincia.codigo_ine },
+    islas: null,
+  };
+}
+
+// Ana placed herself in Barcelona and later moved to Madrid; Bea has no
+// recorded history; someone anonymous went from Sevilla to Barcelona
+const ana = member("ana", "2025-01-01T10:00:00Z", provincias[2]);
+const bea = member("bea", "2025-02-01T10:00:00Z", provincias[1]);
+const events: TimelineEvent[] = [
+  { changed_at: "2025-01-02T10:00:00Z", profile_id: "ana", from_provincia_id: null, to_provincia_id: 1 },
+  { changed_at: "2025-01-15T10:00:00Z", profile_id: null, from_provincia_id: null, to_provincia_id: 4 },
+  { changed_at: "2025-03-01T10:00:00Z", profile_id: "ana", from_provincia_id: 1, to_provincia_id: 3 },
+  { changed_at: "2025-04-01T10:00:00Z", profile_id: null, from_provincia_id: 4, to_provincia_id: 1 },
+];
+
+const snapshotAt = (date: string) =>
+  timelineSnapshot(events, [ana, bea], provincias, Date.parse(date));
+
+describe("timelineSnapshot", () => {
+  it("shows nobody before the first placement", () => {
+    expect(snapshotAt("2025-01-01T12:00:00Z")).toEqual({
+      profiles: [],
+      anonymousCounts: [],
+    });
+  });
+
+  it("puts members where they were on that date", () => {
+    const { profiles, anonymousCounts } = snapshotAt("2025-02-15T00:00:00Z");
+
+    expect(profiles).toEqual([
+      {
+        ...ana,
+        provincia_id: 1,
+        municipio_celda: null,
+        provincias: { nombre: "Barcelona", codigo_ine: "08" },
+      },
+      bea,
+    ]);
+    expect(anonymousCounts).toEqual([{ provincia_id: 4, isla_id: null, total: 1 }]);
+  });
+
+  it("ends on the map as it is now", () => {
+    expect(snapshotAt("2025-05-01T00:00:00Z")).toEqual({
+      profiles: [ana, bea],
+      anonymousCounts: [{ provincia_id: 1, isla_id: null, total: 1 }],
+    });
+  });
+});
+
+describe("timelineStart", () => {
+  it("starts at the earliest placement or sign-up", () => {
+    expect(timelineStart(events, [ana, bea])).toBe(Date.parse("2025-01-02T10:00:00Z"));
+    expect(timelineStart([], [bea, ana])).toBe(Date.parse("2025-01-01T10:00:00Z"));
+  });
+});
+
+describe("timeline dates", () => {
+  it("reads a day as its last moment and writes it back", () => {
+    const time = parseTimelineDate("2025-03-09")!;
+
+    expect(new Date(time).getHours()).toBe(23);
+    expect(formatTimelineDate(time)).toBe("2025-03-09");
+  });
+
+  it("rejects anything but YYYY-MM-DD", () => {
+    for (const value of ["2025-3-9", "09/03/2025", "", "2025-03-09T10:00"]) {
+      expect(parseTimelineDate(value)).toBeNull();
+    }
+  });
+});
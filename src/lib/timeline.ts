@@ -0,0 +1,106 @@
+import type {
+  AnonymousCount,
+  ProfileWithProvince,
+  Provincia,
+  TimelineEvent,
+} from "@/lib/db";
+
+/** What the map showed at one moment: who was where, and the anonymous counts */
+export interface TimelineSnapshot {
+  profiles: ProfileWithProvince[];
+  anonymousCounts: AnonymousCount[];
+}
+
+/**
+ * Replay the history up to `at` (epoch ms). Members keep their island and
+ * municipality only while they're in today's province; members without any
+ * recorded event appear in it when they signed up.
+ */
+export function timelineSnapshot(
+  events: TimelineEvent[],
+  profiles: ProfileWithProvince[],
+  provincias: Provincia[],
+  at: number,
+): TimelineSnapshot {
+  const tracked = new Set(events.flatMap((e) => (e.profile_id ? [e.profile_id] : [])));
+  const placedIn = new Map<string, number>();
+  const anonymous = new Map<number, number>();
+  for (const e of events) {
+    if (Date.parse(e.changed_at) > at) break;
+    if (e.profile_id) {
+      placedIn.set(e.profile_id, e.to_provincia_id);
+      continue;
+    }
+    if (e.from_provincia_id !== null) {
+      anonymous.set(e.from_provincia_id, (anonymous.get(e.from_provincia_id) ?? 0) - 1);
+    }
+    anonymous.set(e.to_provincia_id, (anonymous.get(e.to_provincia_id) ?? 0) + 1);
+  }
+
+  const provinciaById = new Map(provincias.map((p) => [p.id, p]));
+  const snapshot = profiles.flatMap((profile): ProfileWithProvince[] => {
+    if (!tracked.has(profile.id)) {
+      return profile.provincia_id !== null && Date.parse(profile.created_at) <= at
+        ? [profile]
+        : [];
+    }
+    const provinciaId = placedIn.get(profile.id);
+    if (provinciaId === undefined) return [];
+    if (provinciaId === profile.provincia_id) return [profile];
+    const provincia = provinciaById.get(provinciaId);
+    return [
+      {
+        ...profile,
+        provincia_id: provinciaId,
+        isla_id: null,
+        municipio_codigo: null,
+        municipio_celda: null,
+        provincias: provincia
+          ? { nombre: provincia.nombre, codigo_ine: provincia.codigo_ine }
+          : null,
+        islas: null,
+      },
+    ];
+  });
+
+  return {
+    profiles: snapshot,
+    anonymousCounts: [...anonymous].flatMap(([provincia_id, total]) =>
+      total > 0 ? [{ provincia_id, isla_id: null, total }] : [],
+    ),
+  };
+}
+
+/**
+ * First moment worth replaying: the earliest placement, or sign-up for
+ * members without recorded events
+ */
+export function timelineStart(
+  events: TimelineEvent[],
+  profiles: ProfileWithProvince[],
+): number {
+  const tracked = new Set(events.map((e) => e.profile_id));
+  const times = [
+    ...events.slice(0, 1).map((e) => Date.parse(e.changed_at)),
+    ...profiles
+      .filter((p) => p.provincia_id !== null && !tracked.has(p.id))
+      .map((p) => Date.parse(p.created_at)),
+  ];
+  return times.length ? Math.min(...times) : Date.now();
+}
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+/** `YYYY-MM-DD` as the end of that day, local time; null when malformed */
+export function parseTimelineDate(value: string): number | null {
+  if (!DATE_PARAM.test(value)) return null;
+  const time = new Date(`${value}T23:59:59.999`).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/** The local day containing `time`, as `YYYY-MM-DD` for the URL */
+export function formatTimelineDate(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
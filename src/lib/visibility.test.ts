@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { unwrap } from "@/lib/errors";
+import type { ProfileVisibility } from "@/lib/db";
+import { FIXTURE_PROFILES } from "@/lib/repositories/fixtures";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+import { canReadProfile } from "@/lib/visibility";
+
+const [owner, member] = FIXTURE_PROFILES.filter((p) => p.provincia_id !== null);
+
+const viewers = { owner: owner.id, member: member.id, anonymous: null };
+
+/** Who reads the owner's row, per visibility; mirrors the select policies */
+const readers: [ProfileVisibility, (keyof typeof viewers)[]][] = [
+  ["public", ["owner", "member", "anonymous"]],
+  ["members", ["owner", "member"]],
+  ["anonymous", ["owner"]],
+  ["hidden", ["owner"]],
+];
+
+const cases = readers.flatMap(([visibility, allowed]) =>
+  (Object.keys(viewers) as (keyof typeof viewers)[]).map(
+    (viewer) => [visibility, viewer, allowed.includes(viewer)] as const,
+  ),
+);
+
+describe.each(cases)("a %s profile read by the %s", (visibility, viewer, readable) => {
+  const profile = { ...owner, visibility };
+  const viewerId = viewers[viewer];
+
+  it(readable ? "is readable" : "isn't readable", () => {
+    expect(canReadProfile(profile, viewerId)).toBe(readable);
+  });
+
+  it("reaches the viewer through the repository only when readable", async () => {
+    const repos = createMemoryRepositories({
+      profiles: FIXTURE_PROFILES.map((p) => (p.id === owner.id ? profile : p)),
+      getViewerId: async () => viewerId,
+    });
+
+    const byId = unwrap(await repos.profiles.findById(owner.id));
+    const byUsername = unwrap(await repos.profiles.findByUsername(owner.username!));
+    const listed = unwrap(await repos.profiles.listAll());
+    const inProvince = unwrap(await repos.profiles.listByProvince(owner.provincia_id!));
+
+    expect(byId !== null).toBe(readable);
+    expect(byUsername !== null).toBe(readable);
+    expect(listed.some((p) => p.id === owner.id)).toBe(readable);
+    expect(inProvince.some((p) => p.id === owner.id)).toBe(readable);
+  });
+});
@@ -0,0 +1,56 @@
+import type { ProfileVisibility } from "@/lib/db";
+
+export const DEFAULT_VISIBILITY: ProfileVisibility = "public";
+
+/** Choices shown to the user, from most to least visible */
+export const VISIBILITY_OPTIONS: {
+  value: ProfileVisibility;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "public",
+    label: "Público",
+    description: "Cualquiera ve tu avatar y tu provincia en el mapa",
+  },
+  {
+    value: "members",
+    label: "Solo miembros",
+    description: "Solo quien ha iniciado sesión te ve; para el resto cuentas como anónimo",
+  },
+  {
+    value: "anonymous",
+    label: "Anónimo",
+    description: "Sumas en los totales de tu provincia, pero sin avatar ni nombre",
+  },
+  {
+    value: "hidden",
+    label: "Oculto",
+    description: "No apareces en el mapa ni cuentas en los totales",
+  },
+];
+
+/** Whether a profile the viewer can read gets an avatar marker and popup */
+export function showsMarker(visibility: ProfileVisibility): boolean {
+  return visibility === "public" || visibility === "members";
+}
+
+/** Whether a profile adds to the counts and the choropleth */
+export function isCounted(visibility: ProfileVisibility): boolean {
+  return visibility !== "hidden";
+}
+
+/**
+ * Whether a viewer may read a profile's row, mirroring the select policies.
+ * Used to drop realtime changes the viewer shouldn't have received.
+ */
+export function canReadProfile(
+  profile: { id: string; visibility: ProfileVisibility },
+  viewerId: string | null,
+): boolean {
+  return (
+    profile.id === viewerId ||
+    profile.visibility === "public" ||
+    (profile.visibility === "members" && viewerId !== null)
+  );
+}
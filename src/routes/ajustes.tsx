@@ -0,0 +1,461 @@
+import { useMemo, useState, type FormEvent, type ReactNode } from "react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Check } from "lucide-react";
+import { toast } from "sonner";
+import { loginWithX } from "@/auth/auth";
+import { identityFromUser } from "@/auth/identity";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DataErrorBanner } from "@/components/DataErrorBanner";
+import { DataError, describeError } from "@/lib/errors";
+import {
+  BIO_MAX_LENGTH,
+  MAX_LINKS,
+  NAME_MAX_LENGTH,
+  profileDetailsForm,
+  toProfileDetails,
+  validateProfileDetails,
+  type ProfileDetailsErrors,
+  type ProfileDetailsForm,
+} from "@/lib/profileDetails";
+import { formatDuration, provinceChangeStatus } from "@/lib/provinceChanges";
+import {
+  islasQuery,
+  myProfileQuery,
+  provinceChangesQuery,
+  provinciasQuery,
+  sessionQuery,
+  useSetLocationMutation,
+  useSetVisibilityMutation,
+  useUpdateDetailsMutation,
+} from "@/lib/queries";
+import { VISIBILITY_OPTIONS } from "@/lib/visibility";
+import type {
+  Isla,
+  Profile,
+  ProfileIdentity,
+  ProfileVisibility,
+  Provincia,
+} from "@/lib/db";
+import { cn } from "@/lib/utils";
+
+export const Route = createFileRoute("/ajustes")({ component: SettingsPage });
+
+/** Styles of the Input component, for the native textarea and selects */
+const FIELD_CLASS =
+  "border-input w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] aria-invalid:border-destructive disabled:opacity-50 md:text-sm";
+
+function SettingsPage() {
+  const sessionResult = useQuery(sessionQuery());
+  const user = sessionResult.data?.user ?? null;
+  const userId = user?.id ?? null;
+  const myProfileResult = useQuery({
+    ...myProfileQuery(userId ?? ""),
+    enabled: !!userId,
+  });
+  const provinciasResult = useQuery(provinciasQuery());
+  const islasResult = useQuery(islasQuery());
+  const failed = [myProfileResult, provinciasResult, islasResult].find((q) => q.isError);
+  const loading =
+    sessionResult.isPending ||
+    (!!userId && myProfileResult.isPending) ||
+    provinciasResult.isPending ||
+    islasResult.isPending;
+
+  return (
+    <div className='min-h-screen bg-background text-foreground'>
+      <header className='flex items-center gap-3 px-6 py-3 border-b border-border bg-card'>
+        <Link to='/'>
+          <Button variant='ghost' size='icon'>
+            <ArrowLeft className='h-4 w-4' />
+          </Button>
+        </Link>
+        <h1 className='text-xl font-bold tracking-tight'>Ajustes</h1>
+      </header>
+
+      <main className='max-w-xl mx-auto px-6 py-10'>
+        {failed ? (
+          <DataErrorBanner
+            error={failed.error}
+            retrying={failed.isFetching}
+            onRetry={() => failed.refetch()}
+          />
+        ) : loading ? (
+          <p className='text-sm text-muted-foreground'>Cargando ajustes...</p>
+        ) : !userId ? (
+          <div className='space-y-4 text-center'>
+            <p className='text-sm text-muted-foreground'>
+              Inicia sesión para editar tu perfil.
+            </p>
+            <Button onClick={loginWithX}>Iniciar sesión con X</Button>
+          </div>
+        ) : !myProfileResult.data ? (
+          <p className='text-sm text-muted-foreground'>
+            Tu perfil todavía no está listo. Vuelve a intentarlo en unos segundos.
+          </p>
+        ) : (
+          // Keyed so the form starts over if the user changes
+          <SettingsForm
+            key={myProfileResult.data.id}
+            profile={myProfileResult.data}
+            identity={user ? identityFromUser(user) : null}
+            provincias={provinciasResult.data ?? []}
+            islas={islasResult.data ?? []}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+interface SettingsFormProps {
+  profile: Profile;
+  /** What sign-in keeps the name and username in sync with */
+  identity: ProfileIdentity | null;
+  provincias: Provincia[];
+  islas: Isla[];
+}
+
+function SettingsForm({ profile, identity, provincias, islas }: SettingsFormProps) {
+  const [form, setForm] = useState<ProfileDetailsForm>(() => profileDetailsForm(profile));
+  const [errors, setErrors] = useState<ProfileDetailsErrors>({});
+  const [visibility, setVisibility] = useState<ProfileVisibility>(profile.visibility);
+  const [provinciaId, setProvinciaId] = useState<number | null>(profile.provincia_id);
+  const [islaId, setIslaId] = useState<number | null>(profile.isla_id);
+  const [saving, setSaving] = useState(false);
+
+  const updateDetails = useUpdateDetailsMutation(profile.id);
+  const setProfileVisibility = useSetVisibilityMutation(profile.id);
+  const setLocation = useSetLocationMutation(profile.id);
+  const provinceChangesResult = useQuery(provinceChangesQuery(profile.id));
+  // Placing yourself the first time is never limited
+  const moveStatus = provinceChangeStatus(provinceChangesResult.data ?? []);
+  const canMove = moveStatus.allowed;
+
+  const sortedProvincias = useMemo(
+    () => [...provincias].sort((a, b) => a.nombre.localeCompare(b.nombre, "es")),
+    [provincias],
+  );
+  const provinceIslands = islas.filter((i) => i.provincia_id === provinciaId);
+  const locationChanged =
+    provinciaId !== profile.provincia_id || islaId !== profile.isla_id;
+
+  const setField = <K extends keyof ProfileDetailsForm>(
+    field: K,
+    value: ProfileDetailsForm[K],
+  ) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleProvinceChange = (value: string) => {
+    setProvinciaId(value ? Number(value) : null);
+    // An island only makes sense within its own province
+    setIslaId(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const found = validateProfileDetails(form);
+    setErrors(found);
+    if (Object.values(found).some(Boolean)) return;
+
+    const details = toProfileDetails(form, profile, identity);
+    const provincia = provincias.find((p) => p.id === provinciaId);
+    // Queued rather than started: each mutation snapshots the cached
+    // profile to roll back to, so running them side by side lets one
+    // failure undo what another just saved
+    const saves: (() => Promise<void>)[] = [];
+    if (
+      details.full_name !== profile.full_name ||
+      details.username !== profile.username ||
+      details.bio !== profile.bio ||
+      details.links.join("\n") !== profile.links.join("\n") ||
+      details.overridden_fields.join() !== profile.overridden_fields.join()
+    ) {
+      saves.push(() => updateDetails.mutateAsync(details));
+    }
+    if (visibility !== profile.visibility) {
+      saves.push(() => setProfileVisibility.mutateAsync(visibility));
+    }
+    if (locationChanged && provincia) {
+      saves.push(() =>
+        setLocation.mutateAsync({
+          provincia,
+          isla: islas.find((i) => i.id === islaId) ?? null,
+          // The municipality is picked on the map, within the new place
+          municipio: null,
+        }),
+      );
+    }
+    if (saves.length === 0) {
+      toast("No hay cambios que guardar");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const save of saves) await save();
+      setForm(profileDetailsForm({ ...profile, ...details }));
+      toast.success("Ajustes guardados");
+    } catch (error) {
+      // What was saved before the failure stays saved
+      if (error instanceof DataError && error.kind === "conflict") {
+        setErrors({ username: "Ese nombre de usuario ya está en uso" });
+      } else {
+        toast.error(describeError(error));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className='space-y-8'>
+      <section className='space-y-4'>
+        <div className='space-y-1'>
+          <h2 className='text-lg font-semibold'>Perfil</h2>
+          {profile.identity_synced_at && (
+            <p className='text-xs text-muted-foreground'>
+              Última sincronización con X:{" "}
+              {new Date(profile.identity_synced_at).toLocaleString("es-ES", {
+                dateStyle: "long",
+                timeStyle: "short",
+              })}
+            </p>
+          )}
+        </div>
+
+        <Field
+          id='fullName'
+          label='Nombre'
+          hint={
+            identity?.full_name && (
+              <SyncHint
+                value={form.fullName.trim()}
+                fromX={identity.full_name}
+                onRestore={(value) => setField("fullName", value)}
+              />
+            )
+          }
+          error={errors.fullName}>
+          <Input
+            id='fullName'
+            value={form.fullName}
+            maxLength={NAME_MAX_LENGTH}
+            autoComplete='name'
+            aria-invalid={!!errors.fullName}
+            onChange={(e) => setField("fullName", e.target.value)}
+          />
+        </Field>
+
+        <Field
+          id='username'
+          label='Nombre de usuario'
+          hint={
+            identity?.username && (
+              <SyncHint
+                value={form.username.trim().replace(/^@/, "")}
+                fromX={identity.username}
+                onRestore={(value) => setField("username", value)}
+              />
+            )
+          }
+          error={errors.username}>
+          <div className='relative'>
+            <span className='absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground'>
+              @
+            </span>
+            <Input
+              id='username'
+              value={form.username}
+              autoComplete='username'
+              autoCapitalize='none'
+              spellCheck={false}
+              className='pl-7'
+              aria-invalid={!!errors.username}
+              onChange={(e) => setField("username", e.target.value)}
+            />
+          </div>
+        </Field>
+
+        <Field
+          id='bio'
+          label='Biografía'
+          hint={`${form.bio.trim().length}/${BIO_MAX_LENGTH}`}
+          error={errors.bio}>
+          <textarea
+            id='bio'
+            rows={3}
+            value={form.bio}
+            aria-invalid={!!errors.bio}
+            onChange={(e) => setField("bio", e.target.value)}
+            className={cn(FIELD_CLASS, "py-2 resize-none")}
+          />
+        </Field>
+
+        <Field
+          id='link-0'
+          label='Enlaces'
+          hint={`Hasta ${MAX_LINKS}: tu web, un blog, otra red...`}
+          error={errors.links}>
+          <div className='space-y-2'>
+            {form.links.map((link, i) => (
+              <Input
+                key={i}
+                id={`link-${i}`}
+                type='url'
+                inputMode='url'
+                placeholder='https://'
+                value={link}
+                aria-invalid={!!errors.links}
+                onChange={(e) =>
+                  setField(
+                    "links",
+                    form.links.map((l, j) => (j === i ? e.target.value : l)),
+                  )
+                }
+              />
+            ))}
+          </div>
+        </Field>
+      </section>
+
+      <section className='space-y-4'>
+        <h2 className='text-lg font-semibold'>Ubicación</h2>
+        <Field
+          id='provincia'
+          label='Provincia'
+          hint={
+            !canMove && moveStatus.availableAt
+              ? `Podrás volver a cambiar de provincia en ${formatDuration(moveStatus.availableAt.getTime() - Date.now())}`
+              : locationChanged && profile.municipio_codigo
+                ? "Se quitará tu municipio; puedes volver a elegirlo en el mapa"
+                : "También puedes elegirla pulsando en el mapa"
+          }>
+          <select
+            id='provincia'
+            value={provinciaId ?? ""}
+            disabled={!canMove}
+            onChange={(e) => handleProvinceChange(e.target.value)}
+            className={cn(FIELD_CLASS, "h-9")}>
+            {provinciaId === null && <option value=''>Sin provincia</option>}
+            {sortedProvincias.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.nombre}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        {provinceIslands.length > 0 && (
+          <Field id='isla' label='Isla'>
+            <select
+              id='isla'
+              value={islaId ?? ""}
+              onChange={(e) => setIslaId(e.target.value ? Number(e.target.value) : null)}
+              className={cn(FIELD_CLASS, "h-9")}>
+              <option value=''>Sin especificar</option>
+              {provinceIslands.map((i) => (
+                <option key={i.id} value={i.id}>
+                  {i.nombre}
+                </option>
+              ))}
+            </select>
+          </Field>
+        )}
+      </section>
+
+      <section className='space-y-3'>
+        <h2 className='text-lg font-semibold'>Visibilidad en el mapa</h2>
+        <div role='radiogroup' className='space-y-1'>
+          {VISIBILITY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type='button'
+              role='radio'
+              aria-checked={option.value === visibility}
+              onClick={() => setVisibility(option.value)}
+              className={cn(
+                "flex items-start gap-2 w-full rounded-md px-3 py-2 text-left hover:bg-accent transition-colors",
+                option.value === visibility && "bg-accent/50",
+              )}>
+              <Check
+                className={cn(
+                  "h-4 w-4 mt-0.5 shrink-0 text-primary",
+                  option.value !== visibility && "invisible",
+                )}
+              />
+              <span>
+                <span className='block text-sm'>{option.label}</span>
+                <span className='block text-xs text-muted-foreground'>
+                  {option.description}
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <div className='flex justify-end gap-3'>
+        <Link to='/'>
+          <Button type='button' variant='outline'>
+            Volver al mapa
+          </Button>
+        </Link>
+        <Button type='submit' disabled={saving}>
+          {saving ? "Guardando..." : "Guardar cambios"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface SyncHintProps {
+  value: string;
+  /** Current value on X */
+  fromX: string;
+  onRestore: (value: string) => void;
+}
+
+/** Whether a field still follows X, with a way back once it doesn't */
+function SyncHint({ value, fromX, onRestore }: SyncHintProps) {
+  if (value === fromX) return <>Se actualiza desde X cada vez que inicias sesión</>;
+  return (
+    <>
+      Ya no se actualizará desde X.{" "}
+      <button
+        type='button'
+        onClick={() => onRestore(fromX)}
+        className='text-primary underline underline-offset-2'>
+        Usar «{fromX}»
+      </button>
+    </>
+  );
+}
+
+interface FieldProps {
+  id: string;
+  label: string;
+  hint?: ReactNode;
+  error?: string;
+  children: ReactNode;
+}
+
+/** Label, control, and the error or hint below it */
+function Field({ id, label, hint, error, children }: FieldProps) {
+  return (
+    <div className='space-y-1.5'>
+      <label htmlFor={id} className='block text-sm font-medium'>
+        {label}
+      </label>
+      {children}
+      {error ? (
+        <p className='text-xs text-destructive'>{error}</p>
+      ) : (
+        hint && <p className='text-xs text-muted-foreground'>{hint}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { DataErrorBanner } from "@/components/DataErrorBanner";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import {
+  communityGrowthQuery,
+  newestProfilesQuery,
+  provinceTotalsQuery,
+  provinciasQuery,
+} from "@/lib/queries";
+import {
+  cumulativeGrowth,
+  rankCommunities,
+  rankProvinces,
+  REGION_LABELS,
+  regionShares,
+  type GrowthMonth,
+  type RankingRow,
+} from "@/lib/stats";
+import { cn } from "@/lib/utils";
+
+export const Route = createFileRoute("/estadisticas")({ component: StatsPage });
+
+const NEWEST_COUNT = 8;
+
+type RankingLevel = "provinces" | "communities";
+
+const LEVEL_OPTIONS: { value: RankingLevel; label: string }[] = [
+  { value: "provinces", label: "Provincias" },
+  { value: "communities", label: "Comunidades" },
+];
+
+const REGION_COLORS = ["bg-primary", "bg-primary/60", "bg-primary/30"];
+
+const percent = new Intl.NumberFormat("es-ES", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+/** "ene 2025"; months are stored as their first day in UTC */
+function monthLabel(month: string): string {
+  return new Date(month).toLocaleDateString("es-ES", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+function StatsPage() {
+  const totalsResult = useQuery(provinceTotalsQuery());
+  const growthResult = useQuery(communityGrowthQuery());
+  const newestResult = useQuery(newestProfilesQuery(NEWEST_COUNT));
+  const provinciasResult = useQuery(provinciasQuery());
+  const failed = [totalsResult, growthResult, newestResult, provinciasResult].find(
+    (q) => q.isError,
+  );
+  const loading =
+    totalsResult.isPending || growthResult.isPending || provinciasResult.isPending;
+  const [level, setLevel] = useState<RankingLevel>("provinces");
+
+  const totals = useMemo(() => totalsResult.data ?? [], [totalsResult.data]);
+  const provincias = useMemo(() => provinciasResult.data ?? [], [provinciasResult.data]);
+  const growth = useMemo(() => cumulativeGrowth(growthResult.data ?? []), [growthResult.data]);
+  const ranking = useMemo(
+    () =>
+      level === "provinces"
+        ? rankProvinces(totals, provincias)
+        : rankCommunities(totals, provincias),
+    [level, totals, provincias],
+  );
+  const regions = useMemo(() => regionShares(totals, provincias), [totals, provincias]);
+
+  const placed = totals.reduce((sum, t) => sum + t.total, 0);
+  const moves = growth.reduce((sum, m) => sum + m.moves, 0);
+
+  return (
+    <div className='min-h-screen bg-background text-foreground'>
+      <header className='flex items-center gap-3 px-6 py-3 border-b border-border bg-card'>
+        <Link to='/'>
+          <Button variant='ghost' size='icon'>
+            <ArrowLeft className='h-4 w-4' />
+          </Button>
+        </Link>
+        <h1 className='text-xl font-bold tracking-tight'>Estadísticas</h1>
+      </header>
+
+      <main className='max-w-4xl mx-auto px-6 py-10 space-y-10'>
+        {failed ? (
+          <DataErrorBanner
+            error={failed.error}
+            retrying={failed.isFetching}
+            onRetry={() => failed.refetch()}
+          />
+        ) : loading ? (
+          <p className='text-sm text-muted-foreground'>Cargando estadísticas...</p>
+        ) : (
+          <>
+            <section className='grid gap-3 sm:grid-cols-3'>
+              <Figure value={placed} label='miembros en el mapa' />
+              <Figure
+                value={totals.length}
+                label={`de ${provincias.length} provincias con miembros`}
+              />
+              <Figure value={moves} label='cambios de provincia' />
+            </section>
+
+            <section className='space-y-4'>
+              <div className='flex flex-wrap items-center justify-between gap-3'>
+                <h2 className='text-lg font-semibold'>Clasificación</h2>
+                <SegmentedControl value={level} options={LEVEL_OPTIONS} onChange={setLevel} />
+              </div>
+              {ranking.length === 0 ? (
+                <p className='text-sm text-muted-foreground'>
+                  Todavía no hay nadie en el mapa.
+                </p>
+              ) : (
+                <RankingTable rows={ranking} />
+              )}
+            </section>
+
+            <section className='space-y-4'>
+              <h2 className='text-lg font-semibold'>Crecimiento</h2>
+              {growth.length === 0 ? (
+                <p className='text-sm text-muted-foreground'>Aún no hay datos.</p>
+              ) : (
+                <GrowthChart months={growth} />
+              )}
+            </section>
+
+            <section className='space-y-3'>
+              <h2 className='text-lg font-semibold'>Península e islas</h2>
+              <div className='flex h-3 overflow-hidden rounded-full bg-muted'>
+                {regions.map((r, i) => (
+                  <div
+                    key={r.region}
+                    className={REGION_COLORS[i]}
+                    style={{ width: `${r.share * 100}%` }}
+                  />
+                ))}
+              </div>
+              <ul className='flex flex-wrap gap-x-6 gap-y-1 text-sm'>
+                {regions.map((r, i) => (
+                  <li key={r.region} className='flex items-center gap-2'>
+                    <span className={cn("h-2.5 w-2.5 rounded-full", REGION_COLORS[i])} />
+                    {REGION_LABELS[r.region]}
+                    <span className='text-muted-foreground'>
+                      {r.total} · {percent.format(r.share)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+
+        {!failed && (
+          <section className='space-y-4'>
+            <h2 className='text-lg font-semibold'>Últimos en llegar</h2>
+            {newestResult.isPending ? (
+              <p className='text-sm text-muted-foreground'>Cargando miembros...</p>
+            ) : newestResult.data?.length === 0 ? (
+              <p className='text-sm text-muted-foreground'>Todavía no hay miembros.</p>
+            ) : (
+              <ul className='grid gap-3 sm:grid-cols-2'>
+                {newestResult.data?.map((m) => (
+                  <li key={m.id}>
+                    <Card className='py-3'>
+                      <CardContent className='px-3 flex items-center gap-3'>
+                        <MemberAvatar profile={m} size={40} className='h-10 w-10' />
+                        <div className='min-w-0'>
+                          {m.username ? (
+                            <Link
+                              to='/u/$username'
+                              params={{ username: m.username }}
+                              className='block text-sm font-medium truncate hover:underline underline-offset-2'>
+                              {m.full_name ?? m.username}
+                            </Link>
+                          ) : (
+                            <p className='text-sm font-medium truncate'>
+                              {m.full_name ?? "Sin nombre"}
+                            </p>
+                          )}
+                          <p className='text-xs text-muted-foreground truncate'>
+                            {[
+                              m.provincias?.nombre,
+                              new Date(m.created_at).toLocaleDateString("es-ES", {
+                                dateStyle: "medium",
+                              }),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function Figure({ value, label }: { value: number; label: string }) {
+  return (
+    <Card className='py-4'>
+      <CardContent className='px-4'>
+        <p className='text-3xl font-bold'>{value.toLocaleString("es-ES")}</p>
+        <p className='text-sm text-muted-foreground'>{label}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RankingTable({ rows }: { rows: RankingRow[] }) {
+  const top = rows[0].total;
+
+  return (
+    <table className='w-full text-sm'>
+      <thead>
+        <tr className='text-left text-muted-foreground border-b border-border'>
+          <th className='py-2 pr-3 font-medium w-10'>#</th>
+          <th className='py-2 pr-3 font-medium'>Nombre</th>
+          <th className='py-2 pr-3 font-medium text-right'>Miembros</th>
+          <th className='py-2 font-medium hidden sm:table-cell w-1/3'>
+            <span className='sr-only'>Proporción</span>
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.name} className='border-b border-border/50'>
+            <td className='py-2 pr-3 text-muted-foreground tabular-nums'>{row.rank}</td>
+            <td className='py-2 pr-3'>
+              {row.codigo ? (
+                <Link
+                  to='/provincia/$codigo'
+                  params={{ codigo: row.codigo }}
+                  className='hover:underline underline-offset-2'>
+                  {row.name}
+                </Link>
+              ) : (
+                row.name
+              )}
+            </td>
+            <td className='py-2 pr-3 text-right tabular-nums'>
+              {row.total}{" "}
+              <span className='text-xs text-muted-foreground'>
+                ({percent.format(row.share)})
+              </span>
+            </td>
+            <td className='py-2 hidden sm:table-cell'>
+              <div className='h-2 rounded-full bg-muted'>
+                <div
+                  className='h-2 rounded-full bg-primary'
+                  style={{ width: `${(row.total / top) * 100}%` }}
+                />
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/** Monthly sign-ups as bars, with the running total as a line over them */
+function GrowthChart({ months }: { months: GrowthMonth[] }) {
+  const maxJoined = Math.max(...months.map((m) => m.joined), 1);
+  const maxMembers = Math.max(months.at(-1)!.members, 1);
+  const width = months.length * 10;
+  const line = months
+    .map((m, i) => `${i * 10 + 5},${100 - (m.members / maxMembers) * 95}`)
+    .join(" ");
+
+  return (
+    <div className='space-y-2'>
+      <svg
+        viewBox={`0 0 ${width} 100`}
+        preserveAspectRatio='none'
+        className='w-full h-40'
+        role='img'
+        aria-label={`De ${monthLabel(months[0].month)} a ${monthLabel(months.at(-1)!.month)}: ${months.at(-1)!.members} miembros`}>
+        {months.map((m, i) => (
+          <rect
+            key={m.month}
+            x={i * 10 + 1}
+            width={8}
+            y={100 - (m.joined / maxJoined) * 60}
+            height={(m.joined / maxJoined) * 60}
+            className='fill-primary/30'>
+            <title>
+              {`${monthLabel(m.month)}: ${plural(m.joined, "alta", "altas")}, ${plural(m.moves, "cambio", "cambios")} de provincia, ${plural(m.members, "miembro", "miembros")}`}
+            </title>
+          </rect>
+        ))}
+        <polyline
+          points={line}
+          fill='none'
+          strokeWidth={2}
+          vectorEffect='non-scaling-stroke'
+          className='stroke-primary'
+        />
+      </svg>
+      <div className='flex justify-between text-xs text-muted-foreground'>
+        <span>{monthLabel(months[0].month)}</span>
+        <span className='flex items-center gap-4'>
+          <span className='flex items-center gap-1.5'>
+            <span className='h-2.5 w-2.5 rounded-sm bg-primary/30' />
+            Altas del mes
+          </span>
+          <span className='flex items-center gap-1.5'>
+            <span className='h-0.5 w-3 bg-primary' />
+            Miembros
+          </span>
+        </span>
+        <span>{monthLabel(months.at(-1)!.month)}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,19 @@
-import { createFileRoute, Link } from "@tanstack/react-router";
-import { useEffect, useState, useCallback } from "react";
-import type { Session } from "@supabase/supabase-js";
+import {
+  createFileRoute,
+  Link,
+  useNavigate,
+  type ErrorComponentProps,
+} from "@tanstack/react-router";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import {
+  useQuery,
+  useQueryClient,
+  useQueryErrorResetBoundary,
+  useSuspenseQuery,
+} from "@tanstack/react-query";
 import { supabase } from "@/auth/supabaseClient";
 import { Header } from "@/components/Header";
-import { SpainMap } from "@/components/SpainMap";
+import { SpainMap, type MapFocusRequest } from "@/components/SpainMap";
 import { Badge } from "@/components/ui/badge";
 import {
   AlertDialog,
@@ -16,135 +26,456 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
+import { LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DataErrorBanner } from "@/components/DataErrorBanner";
+import { MunicipalityPicker } from "@/components/MunicipalityPicker";
+import { describeError } from "@/lib/errors";
+import type { Profile, ProfileWithProvince } from "@/lib/db";
+import {
+  anonymousCountsQuery,
+  applyProfileChangeToCache,
+  islasQuery,
+  municipiosQuery,
+  myProfileQuery,
+  profilesQuery,
+  provinceChangesQuery,
+  provinciasQuery,
+  queryKeys,
+  sessionQuery,
+  useSetLocationMutation,
+  useSyncIdentityMutation,
+} from "@/lib/queries";
+import { municipalityIsland, type Municipality } from "@/lib/municipalities";
+import {
+  getProvinceInfo,
+  loadProvinceBoundaries,
+  locateProvince,
+} from "@/lib/provinces";
+import { readCurrentPosition } from "@/lib/geolocation";
 import {
-  fetchAllProfiles,
-  fetchProvinciaIdByName,
-  setUserProvince,
-  type ProfileWithProvince,
-} from "@/lib/db";
+  countsAsMove,
+  formatDuration,
+  PROVINCE_CHANGE_COOLDOWN_MS,
+  provinceChangeStatus,
+} from "@/lib/provinceChanges";
+import { defaultProfileChangeSource, type ProfileChange } from "@/lib/realtime";
 
-export const Route = createFileRoute("/")({ component: App });
+type MapSearch = {
+  /** Username whose marker the map opens centred on */
+  u?: string;
+  /** Day the time-lapse is showing, `YYYY-MM-DD` */
+  fecha?: string;
+};
+
+export const Route = createFileRoute("/")({
+  validateSearch: (search: Record<string, unknown>): MapSearch => ({
+    u: typeof search.u === "string" && search.u ? search.u : undefined,
+    fecha:
+      typeof search.fecha === "string" && /^\d{4}-\d{2}-\d{2}$/.test(search.fecha)
+        ? search.fecha
+        : undefined,
+  }),
+  component: App,
+  pendingComponent: MapPending,
+  errorComponent: MapError,
+});
+
+/** Shown while the session, profiles and provinces load */
+function MapPending() {
+  return (
+    <div className='min-h-screen bg-background flex flex-col'>
+      <div className='flex items-center justify-between px-6 py-3 border-b border-border bg-card'>
+        <Skeleton className='h-6 w-28' />
+        <Skeleton className='h-8 w-8 rounded-full' />
+      </div>
+      <Skeleton className='flex-1 rounded-none opacity-40' />
+    </div>
+  );
+}
+
+/** First load failed: nothing to show yet, so offer a retry */
+function MapError({ error, reset }: ErrorComponentProps) {
+  const queryErrorResetBoundary = useQueryErrorResetBoundary();
+
+  return (
+    <div className='min-h-screen bg-background flex items-center justify-center px-6'>
+      <DataErrorBanner
+        error={error}
+        onRetry={() => {
+          queryErrorResetBoundary.reset();
+          reset();
+        }}
+      />
+    </div>
+  );
+}
 
 function App() {
-  const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [profiles, setProfiles] = useState<ProfileWithProvince[]>([]);
-  const [myProvince, setMyProvince] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { u: focusUsername, fecha: timelineDate } = Route.useSearch();
+  const { data: session } = useSuspenseQuery(sessionQuery());
+  const profilesResult = useSuspenseQuery(profilesQuery());
+  const provinciasResult = useSuspenseQuery(provinciasQuery());
+  const islasResult = useSuspenseQuery(islasQuery());
+  const profiles = profilesResult.data;
+  const provincias = provinciasResult.data;
+  const islas = islasResult.data;
+  const userId = session?.user?.id ?? null;
+  const myProfileResult = useQuery({
+    ...myProfileQuery(userId ?? ""),
+    enabled: !!userId,
+  });
+  const myProfile = myProfileResult.data;
+  const anonymousCountsResult = useQuery(anonymousCountsQuery());
+  // Only needed to tell whether the user may move yet; members who left
+  // the map have a history too
+  const provinceChangesResult = useQuery({
+    ...provinceChangesQuery(userId ?? ""),
+    enabled: !!userId,
+  });
+  const setLocation = useSetLocationMutation(userId);
+  const { mutate: syncIdentity } = useSyncIdentityMutation();
+  // The municipality list is bundled but large; only load it when needed
+  const municipiosResult = useQuery({
+    ...municipiosQuery(),
+    enabled: !!myProfile?.municipio_codigo,
+  });
+  const failedQueries = [
+    profilesResult,
+    provinciasResult,
+    islasResult,
+    myProfileResult,
+    anonymousCountsResult,
+  ].filter((q) => q.isError);
+
+  // Provinces are tracked by INE code; names are only for display
+  const myProvince =
+    provincias.find((p) => p.id === myProfile?.provincia_id)?.codigo_ine ?? null;
+  const myIsland = islas.find((i) => i.id === myProfile?.isla_id)?.nombre ?? null;
+  const myMunicipality =
+    municipiosResult.data?.find((m) => m.codigo === myProfile?.municipio_codigo) ??
+    null;
 
   // Confirmation dialog state
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [pendingProvince, setPendingProvince] = useState<string | null>(null);
-  const [saving, setSaving] = useState(false);
+  const [pendingIsland, setPendingIsland] = useState<string | null>(null);
+  const [pendingMunicipality, setPendingMunicipality] =
+    useState<Municipality | null>(null);
+  const isMove = countsAsMove(
+    myProvince,
+    pendingProvince,
+    provinceChangesResult.data ?? [],
+  );
+  // The server enforces the same limits; this only explains them up front
+  const moveStatus = provinceChangeStatus(provinceChangesResult.data ?? []);
 
-  // Auth listener
+  // Auth listener; each sign-in also refreshes the profile from X
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setLoading(false);
-    });
-
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      queryClient.setQueryData(queryKeys.session, session);
+      if (event === "SIGNED_IN" && session) {
+        // Supabase calls made inside this callback can deadlock the auth lock
+        setTimeout(() => syncIdentity(session.user), 0);
+      }
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient, syncIdentity]);
 
-  // Load all profiles (public)
-  const loadProfiles = useCallback(async () => {
-    const data = await fetchAllProfiles();
-    setProfiles(data);
+  /** Display name for an INE code, preferring the database row */
+  const provinceNames = useMemo(
+    () =>
+      new Map(
+        provincias.flatMap((p) =>
+          p.codigo_ine ? [[p.codigo_ine, p.nombre] as const] : [],
+        ),
+      ),
+    [provincias],
+  );
+  const provinceLabel = useCallback(
+    (code: string | null) =>
+      code
+        ? (provinceNames.get(code) ?? getProvinceInfo(code)?.nombre ?? code)
+        : "",
+    [provinceNames],
+  );
+  /** "Sabadell (Barcelona)" or "Menorca (Illes Balears)", the province name otherwise */
+  const locationLabel = useCallback(
+    (code: string | null, island: string | null, municipality?: Municipality | null) => {
+      const detail = municipality?.nombre ?? island;
+      return detail ? `${detail} (${provinceLabel(code)})` : provinceLabel(code);
+    },
+    [provinceLabel],
+  );
 
-    // Find current user's province
-    if (session?.user?.id) {
-      const mine = data.find((p) => p.id === session.user.id);
-      setMyProvince(mine?.provincias?.nombre ?? null);
-    }
-  }, [session]);
+  // Latest state for the realtime handler, which subscribes only once
+  const liveStateRef = useRef({ profiles, provincias, islas, userId });
+  useEffect(() => {
+    liveStateRef.current = { profiles, provincias, islas, userId };
+  }, [profiles, provincias, islas, userId]);
 
+  // Patch the cached profiles with realtime changes instead of refetching
   useEffect(() => {
-    loadProfiles();
-  }, [loadProfiles]);
+    const handleChange = (incoming: ProfileChange) => {
+      const { profiles, provincias, islas, userId } = liveStateRef.current;
+      const change = applyProfileChangeToCache(
+        queryClient,
+        incoming,
+        userId,
+        provincias,
+        islas,
+      );
+
+      if (change.type === "INSERT" || change.type === "UPDATE") {
+        const { profile } = change;
+        // From the render before this change
+        const previous = profiles.find((p) => p.id === profile.id);
+        const provincia = provincias.find((p) => p.id === profile.provincia_id);
+
+        if (profile.id === userId) {
+          // Realtime rows leave out the municipality: keep the cached one,
+          // or fetch it again when the member picked another
+          const myProfileKey = queryKeys.myProfile(userId);
+          const cached = queryClient.getQueryData<Profile | null>(myProfileKey);
+          queryClient.setQueryData(myProfileKey, {
+            ...profile,
+            municipio_codigo: cached?.municipio_codigo ?? null,
+          });
+          if (cached?.municipio_celda !== profile.municipio_celda) {
+            queryClient.invalidateQueries({ queryKey: myProfileKey });
+          }
+        } else if (provincia && previous?.provincia_id !== profile.provincia_id) {
+          // Members who become readable again arrive with no previous row
+          // and get no toast
+          const name =
+            profile.full_name ??
+            (profile.username ? `@${profile.username}` : "Alguien");
+          if (change.type === "INSERT" || previous?.provincia_id === null) {
+            toast(`${name} se ha unido a ${provincia.nombre}`, { duration: 3000 });
+          } else if (previous) {
+            toast(`${name} se ha mudado a ${provincia.nombre}`, { duration: 3000 });
+          }
+        }
+      }
+    };
+    return defaultProfileChangeSource.subscribe(handleChange);
+  }, [queryClient]);
 
-  // Province click handler
+  // Marker the map should fly to; a new object triggers a new flight
+  const [focusRequest, setFocusRequest] = useState<MapFocusRequest | null>(null);
+  const handledFocusUsernameRef = useRef<string | null>(null);
+
+  // Arriving from a profile link: focus once that profile is loaded
+  useEffect(() => {
+    if (!focusUsername || handledFocusUsernameRef.current === focusUsername) return;
+    const wanted = focusUsername.toLowerCase();
+    const target = profiles.find((p) => p.username?.toLowerCase() === wanted);
+    if (!target) return;
+    handledFocusUsernameRef.current = focusUsername;
+    setFocusRequest({ profileId: target.id });
+  }, [profiles, focusUsername]);
+
+  // Member picked in the header search
+  const handleMemberSelect = useCallback(
+    (profile: ProfileWithProvince) => {
+      if (!profile.provincia_id) {
+        toast.info(
+          `${profile.full_name ?? "Este miembro"} todavía no ha elegido provincia`,
+        );
+        return;
+      }
+      if (profile.username) {
+        handledFocusUsernameRef.current = profile.username;
+        navigate({ to: "/", search: { u: profile.username }, replace: true });
+      }
+      setFocusRequest({ profileId: profile.id });
+    },
+    [navigate],
+  );
+
+  const handleTimelineDateChange = useCallback(
+    (date: string | null) => {
+      navigate({
+        to: "/",
+        search: (prev) => ({ ...prev, fecha: date ?? undefined }),
+        replace: true,
+      });
+    },
+    [navigate],
+  );
+
+  // Province click handler; island features also carry the island
   const handleProvinceSelect = useCallback(
-    (provinceName: string) => {
+    (provinceCode: string, island: string | null) => {
+      const viewMembers = {
+        label: "Ver miembros",
+        onClick: () =>
+          navigate({ to: "/provincia/$codigo", params: { codigo: provinceCode } }),
+      };
+
       if (!session) {
-        toast.error("Inicia sesión para seleccionar tu provincia");
+        toast.error("Inicia sesión para seleccionar tu provincia", {
+          action: viewMembers,
+        });
         return;
       }
 
-      // If clicking the same province they're already in
-      if (provinceName === myProvince) {
-        toast.info("Ya estás en esta provincia");
+      // If clicking the same province (and island) they're already in
+      if (provinceCode === myProvince && (!island || island === myIsland)) {
+        toast.info(island ? "Ya estás en esta isla" : "Ya estás en esta provincia", {
+          action: viewMembers,
+        });
         return;
       }
 
-      setPendingProvince(provinceName);
+      setPendingProvince(provinceCode);
+      setPendingIsland(island);
+      setPendingMunicipality(null);
       setConfirmOpen(true);
     },
-    [session, myProvince],
+    [session, myProvince, myIsland, navigate],
   );
 
-  // Confirm province change
-  const handleConfirmProvince = useCallback(async () => {
-    if (!session?.user?.id || !pendingProvince) return;
+  // "Use my location": the position only lives in this handler, it's
+  // resolved to a province and then dropped, never stored or sent
+  const [locating, setLocating] = useState(false);
+  const handleUseMyLocation = useCallback(async () => {
+    if (!session) {
+      toast.error("Inicia sesión para seleccionar tu provincia");
+      return;
+    }
+    setLocating(true);
+    try {
+      const [lat, lng] = await readCurrentPosition();
+      const match = locateProvince(await loadProvinceBoundaries(), lat, lng);
+      if (match) handleProvinceSelect(match.provinceCode, match.island);
+      else toast.error("Tu ubicación no está en ninguna provincia de España");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "No se pudo determinar tu ubicación");
+    } finally {
+      setLocating(false);
+    }
+  }, [session, handleProvinceSelect]);
+
+  // Badge click: pick or change the municipality within the current province
+  const handleEditMunicipality = useCallback(() => {
+    if (!myProvince) return;
+    setPendingProvince(myProvince);
+    setPendingIsland(myIsland);
+    setPendingMunicipality(myMunicipality);
+    setConfirmOpen(true);
+  }, [myProvince, myIsland, myMunicipality]);
 
-    setSaving(true);
-    const provinciaId = await fetchProvinciaIdByName(pendingProvince);
+  // Confirm province change; the map updates before the write finishes
+  const handleConfirmProvince = useCallback(() => {
+    if (!userId || !pendingProvince) return;
+    const code = pendingProvince;
+    const municipio = pendingMunicipality;
+    // A municipality settles which island it is on
+    const islandName = municipio ? municipalityIsland(municipio) : pendingIsland;
+    setConfirmOpen(false);
+    setPendingProvince(null);
+    setPendingIsland(null);
+    setPendingMunicipality(null);
 
-    if (!provinciaId) {
+    const provincia = provincias.find((p) => p.codigo_ine === code);
+    if (!provincia) {
       toast.error(
-        `No se encontró la provincia "${pendingProvince}" en la base de datos`,
+        `No se encontró la provincia "${provinceLabel(code)}" en la base de datos`,
       );
-      setSaving(false);
-      setConfirmOpen(false);
       return;
     }
 
-    const result = await setUserProvince(session.user.id, provinciaId);
+    // An island missing from the table still saves the province
+    const isla =
+      islas.find((i) => i.nombre === islandName && i.provincia_id === provincia.id) ??
+      null;
 
-    if (result.success) {
-      setMyProvince(pendingProvince);
-      toast.success(`Te has ubicado en ${pendingProvince}`);
-      await loadProfiles(); // Refresh all
-    } else {
-      toast.error(`Error: ${result.error}`);
+    if (
+      provincia.id === myProfile?.provincia_id &&
+      (isla?.id ?? null) === myProfile.isla_id &&
+      (municipio?.codigo ?? null) === myProfile.municipio_codigo
+    ) {
+      return;
     }
 
-    setSaving(false);
-    setConfirmOpen(false);
-    setPendingProvince(null);
-  }, [session, pendingProvince, loadProfiles]);
-
-  if (loading) {
-    return (
-      <div className='min-h-screen bg-background flex items-center justify-center'>
-        <p className='text-muted-foreground text-lg'>Cargando...</p>
-      </div>
+    setLocation.mutate(
+      { provincia, isla, municipio },
+      {
+        onSuccess: () =>
+          toast.success(
+            `Te has ubicado en ${locationLabel(code, isla?.nombre ?? null, municipio)}`,
+          ),
+        onError: (error) => toast.error(describeError(error)),
+      },
     );
-  }
+  }, [
+    userId,
+    pendingProvince,
+    pendingIsland,
+    pendingMunicipality,
+    provincias,
+    islas,
+    myProfile,
+    provinceLabel,
+    locationLabel,
+    setLocation,
+  ]);
 
   return (
     <div className='min-h-screen bg-background flex flex-col'>
-      <Header session={session} />
+      <Header session={session} onMemberSelect={handleMemberSelect} />
 
       <main className='flex-1 relative'>
-        {myProvince && (
-          <div className='absolute bottom-3 right-3 map-overlay'>
-            <Badge className='text-sm px-3 py-1.5 shadow-lg'>
-              Tu provincia: {myProvince}
-            </Badge>
+        {/* A refetch failed: the map keeps the last data it had */}
+        {failedQueries.length > 0 && (
+          <div className='absolute top-3 left-1/2 -translate-x-1/2 map-overlay'>
+            <DataErrorBanner
+              error={failedQueries[0].error}
+              retrying={failedQueries.some((q) => q.isFetching)}
+              onRetry={() => failedQueries.forEach((q) => q.refetch())}
+            />
           </div>
         )}
 
+        <div className='absolute bottom-3 right-3 map-overlay flex flex-col items-end gap-2'>
+          <Button
+            variant='secondary'
+            size='sm'
+            className='shadow-lg'
+            disabled={locating}
+            onClick={handleUseMyLocation}>
+            <LocateFixed />
+            {locating ? "Buscando..." : "Usar mi ubicación"}
+          </Button>
+          {myProvince && (
+            <button onClick={handleEditMunicipality} title='Elegir municipio'>
+              <Badge className='text-sm px-3 py-1.5 shadow-lg'>
+                {myMunicipality ? "Tu municipio" : myIsland ? "Tu isla" : "Tu provincia"}:{" "}
+                {locationLabel(myProvince, myIsland, myMunicipality)}
+              </Badge>
+            </button>
+          )}
+        </div>
+
         <SpainMap
           selectedProvince={myProvince}
+          selectedIsland={myIsland}
           onProvinceSelect={handleProvinceSelect}
           profiles={profiles}
+          provincias={provincias}
+          islas={islas}
+          anonymousCounts={anonymousCountsResult.data}
+          focusRequest={focusRequest}
           dialogOpen={confirmOpen}
+          timelineDate={timelineDate ?? null}
+          onTimelineDateChange={handleTimelineDateChange}
         />
       </main>
 
@@ -165,18 +496,58 @@ function App() {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>
-              {myProvince ? "Cambiar de provincia" : "Seleccionar provincia"}
+              {!myProvince
+                ? "Seleccionar provincia"
+                : pendingProvince === myProvince
+                  ? "Elegir municipio"
+                  : "Cambiar de provincia"}
             </AlertDialogTitle>
             <AlertDialogDescription>
-              {myProvince
-                ? `¿Quieres cambiar de ${myProvince} a ${pendingProvince}?`
-                : `¿Quieres ubicarte en ${pendingProvince}?`}
+              {!myProvince
+                ? `¿Quieres ubicarte en ${locationLabel(pendingProvince, pendingIsland)}?`
+                : pendingProvince === myProvince
+                  ? `Estás en ${locationLabel(myProvince, myIsland, myMunicipality)}.`
+                  : `¿Quieres cambiar de ${locationLabel(myProvince, myIsland, myMunicipality)} a ${locationLabel(pendingProvince, pendingIsland)}?`}
             </AlertDialogDescription>
+            <div className='space-y-1.5 pt-2'>
+              <p className='text-sm font-medium text-foreground'>Municipio (opcional)</p>
+              <MunicipalityPicker
+                provinceCode={pendingProvince}
+                value={pendingMunicipality}
+                onChange={setPendingMunicipality}
+              />
+              <p className='text-xs text-muted-foreground'>
+                Solo tú lo ves. Los demás, al acercar el mapa, te ven en una zona
+                aproximada de unos 5 km.
+              </p>
+            </div>
+            {isMove && (
+              <p
+                className={
+                  moveStatus.allowed
+                    ? "text-xs text-muted-foreground"
+                    : "text-sm font-medium text-destructive"
+                }>
+                {moveStatus.availableAt
+                  ? `Podrás volver a cambiar de provincia en ${formatDuration(moveStatus.availableAt.getTime() - Date.now())}.`
+                  : `Después tendrás que esperar ${formatDuration(PROVINCE_CHANGE_COOLDOWN_MS)} para volver a cambiar. Hoy te ${moveStatus.remainingToday === 1 ? "queda 1 cambio" : `quedan ${moveStatus.remainingToday} cambios`}.`}
+              </p>
+            )}
+            {pendingProvince && (
+              <Link
+                to='/provincia/$codigo'
+                params={{ codigo: pendingProvince }}
+                className='text-sm text-primary hover:underline underline-offset-2'>
+                Ver quién está en {provinceLabel(pendingProvince)}
+              </Link>
+            )}
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={saving}>Cancelar</AlertDialogCancel>
-            <AlertDialogAction onClick={handleConfirmProvince} disabled={saving}>
-              {saving ? "Guardando..." : "Confirmar"}
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isMove && !moveStatus.allowed}
+              onClick={handleConfirmProvince}>
+              Confirmar
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
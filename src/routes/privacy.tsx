@@ -51,7 +51,23 @@ function PrivacyPage() {
             </li>
             <li>
               <strong className='text-foreground'>Datos de Preferencias:</strong> La
-              provincia que selecciones manualmente dentro de la aplicación.
+              provincia que selecciones manualmente dentro de la aplicación y, si lo
+              eliges, tu isla o municipio. El municipio solo lo ves tú; a los
+              demás únicamente les llega una zona aproximada de unos 5 km.
+              Guardamos también cuándo te ubicas y
+              cada cambio de provincia, para limitar los cambios seguidos y para
+              las estadísticas de la comunidad.
+            </li>
+            <li>
+              <strong className='text-foreground'>Visibilidad:</strong> Quién puede
+              verte en el mapa (todo el mundo, solo miembros, de forma anónima o
+              nadie). Puedes cambiarla en cualquier momento desde el menú de tu
+              avatar.
+            </li>
+            <li>
+              <strong className='text-foreground'>Perfil:</strong> La biografía
+              breve y los enlaces que añadas tú mismo en los ajustes, visibles en
+              tu perfil público.
             </li>
             {/* <li>
               <strong className='text-foreground'>Correo electrónico:</strong> Solo
@@ -93,6 +109,10 @@ function PrivacyPage() {
             solicitar la eliminación de tus datos, procederemos a borrarlos de
             nuestra base de datos en Supabase.
           </p>
+          <p>
+            El historial de cambios de provincia se conserva mientras tengas
+            cuenta y se borra junto con ella.
+          </p>
         </section>
 
         <section className='space-y-2'>
@@ -131,10 +151,18 @@ function PrivacyPage() {
             . También puedes revocar el acceso de esta aplicación desde la
             configuración de seguridad de tu cuenta de X (Twitter).
           </p>
+          <p>
+            Para el derecho de acceso no hace falta escribirnos: la opción{" "}
+            <strong>"Descargar mis datos"</strong> del menú de usuario genera en tu
+            navegador una copia de todo lo que guardamos sobre ti, en JSON y como
+            resumen legible.
+          </p>
           <p>
             Además, puedes eliminar tu cuenta y todos los datos asociados
             directamente desde la aplicación usando el botón{" "}
             <strong>"Eliminar mi cuenta"</strong> disponible en el menú de usuario.
+            Se borran tu perfil, tu ubicación, tus ajustes y el propio usuario con
+            su vínculo a X, sin dejar copia en la aplicación.
           </p>
         </section>
 
@@ -0,0 +1,213 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { ProvinceOutline } from "@/components/ProvinceOutline";
+import { DataErrorBanner } from "@/components/DataErrorBanner";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import {
+  anonymousCountsQuery,
+  profilesByProvinceQuery,
+  provinciaByCodeQuery,
+} from "@/lib/queries";
+import { getProvinceInfo } from "@/lib/provinces";
+import { normalizeText } from "@/lib/utils";
+
+export const Route = createFileRoute("/provincia/$codigo")({
+  component: ProvincePage,
+});
+
+const PAGE_SIZE = 24;
+
+type MemberSort = "name" | "recent";
+
+const SORT_OPTIONS: { value: MemberSort; label: string }[] = [
+  { value: "name", label: "Nombre" },
+  { value: "recent", label: "Recientes" },
+];
+
+function ProvincePage() {
+  const { codigo } = Route.useParams();
+  const provinciaResult = useQuery(provinciaByCodeQuery(codigo));
+  const provincia = provinciaResult.data ?? null;
+  const membersResult = useQuery({
+    ...profilesByProvinceQuery(provincia?.id ?? 0),
+    enabled: !!provincia,
+  });
+  const anonymousResult = useQuery(anonymousCountsQuery());
+  const members = useMemo(() => membersResult.data ?? [], [membersResult.data]);
+  // Members the viewer can't see still count, as they do on the map
+  const hiddenCount = (anonymousResult.data ?? [])
+    .filter((c) => c.provincia_id === provincia?.id)
+    .reduce((sum, c) => sum + c.total, 0);
+  const total = members.length + hiddenCount;
+  const loading =
+    provinciaResult.isPending ||
+    (!!provincia && membersResult.isPending) ||
+    anonymousResult.isPending;
+  const failedQuery = [provinciaResult, membersResult, anonymousResult].find(
+    (q) => q.isError,
+  );
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<MemberSort>("name");
+  const [page, setPage] = useState(0);
+
+  const name = provincia?.nombre ?? getProvinceInfo(codigo)?.nombre ?? codigo;
+  const community =
+    provincia?.comunidad_autonoma ?? getProvinceInfo(codigo)?.comunidad ?? null;
+
+  /** Members matching the search, in the chosen order */
+  const visibleMembers = useMemo(() => {
+    const needle = normalizeText(query);
+    const filtered = needle
+      ? members.filter((m) =>
+          [m.full_name, m.username].some(
+            (value) => value && normalizeText(value).includes(needle),
+          ),
+        )
+      : members;
+
+    return [...filtered].sort((a, b) =>
+      sort === "name"
+        ? (a.full_name ?? "").localeCompare(b.full_name ?? "", "es")
+        : (b.updated_at ?? "").localeCompare(a.updated_at ?? ""),
+    );
+  }, [members, query, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(visibleMembers.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageMembers = visibleMembers.slice(
+    currentPage * PAGE_SIZE,
+    (currentPage + 1) * PAGE_SIZE,
+  );
+
+  return (
+    <div className='min-h-screen bg-background text-foreground'>
+      <header className='flex items-center gap-3 px-6 py-3 border-b border-border bg-card'>
+        <Link to='/'>
+          <Button variant='ghost' size='icon'>
+            <ArrowLeft className='h-4 w-4' />
+          </Button>
+        </Link>
+        <h1 className='text-xl font-bold tracking-tight'>{name}</h1>
+      </header>
+
+      <main className='max-w-4xl mx-auto px-6 py-10 space-y-8'>
+        <section className='flex items-center gap-6'>
+          <ProvinceOutline codigo={codigo} className='h-32 w-32 shrink-0' />
+          <div className='space-y-1'>
+            {community && (
+              <p className='text-sm text-muted-foreground'>{community}</p>
+            )}
+            <p className='text-3xl font-bold'>
+              {loading ? "…" : total}
+            </p>
+            <p className='text-sm text-muted-foreground'>
+              {total === 1 ? "miembro" : "miembros"}
+              {!loading && hiddenCount > 0 && ` · ${hiddenCount} sin mostrar`}
+            </p>
+          </div>
+        </section>
+
+        <section className='space-y-4'>
+          <div className='flex flex-wrap items-center gap-3'>
+            <div className='relative flex-1 min-w-48'>
+              <Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground' />
+              <Input
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setPage(0);
+                }}
+                placeholder='Buscar por nombre o @usuario'
+                className='pl-9'
+              />
+            </div>
+            <SegmentedControl value={sort} options={SORT_OPTIONS} onChange={setSort} />
+          </div>
+
+          {failedQuery ? (
+            <DataErrorBanner
+              error={failedQuery.error}
+              retrying={failedQuery.isFetching}
+              onRetry={() => failedQuery.refetch()}
+            />
+          ) : loading ? (
+            <p className='text-sm text-muted-foreground'>Cargando miembros...</p>
+          ) : visibleMembers.length === 0 ? (
+            <p className='text-sm text-muted-foreground'>
+              {members.length === 0
+                ? "Todavía no hay nadie en esta provincia."
+                : "Nadie coincide con la búsqueda."}
+            </p>
+          ) : (
+            <ul className='grid gap-3 sm:grid-cols-2'>
+              {pageMembers.map((m) => (
+                <li key={m.id}>
+                  <Card className='py-3'>
+                    <CardContent className='px-3 flex items-center gap-3'>
+                      <MemberAvatar
+                        profile={m}
+                        size={40}
+                        className='h-10 w-10'
+                      />
+                      <div className='min-w-0'>
+                        {m.username ? (
+                          <Link
+                            to='/u/$username'
+                            params={{ username: m.username }}
+                            className='block text-sm font-medium truncate hover:underline underline-offset-2'>
+                            {m.full_name ?? m.username}
+                          </Link>
+                        ) : (
+                          <p className='text-sm font-medium truncate'>
+                            {m.full_name ?? "Sin nombre"}
+                          </p>
+                        )}
+                        {m.username && (
+                          <a
+                            href={`https://x.com/${encodeURIComponent(m.username)}`}
+                            target='_blank'
+                            rel='noopener noreferrer'
+                            className='text-xs text-muted-foreground hover:text-primary transition-colors'>
+                            @{m.username}
+                          </a>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {pageCount > 1 && (
+            <div className='flex items-center justify-center gap-3'>
+              <Button
+                variant='outline'
+                size='icon-sm'
+                disabled={currentPage === 0}
+                onClick={() => setPage(currentPage - 1)}>
+                <ChevronLeft />
+              </Button>
+              <span className='text-sm text-muted-foreground'>
+                Página {currentPage + 1} de {pageCount}
+              </span>
+              <Button
+                variant='outline'
+                size='icon-sm'
+                disabled={currentPage === pageCount - 1}
+                onClick={() => setPage(currentPage + 1)}>
+                <ChevronRight />
+              </Button>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, CalendarDays, Link as LinkIcon, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { DataErrorBanner } from "@/components/DataErrorBanner";
+import { profileByUsernameQuery, profilesByProvinceQuery } from "@/lib/queries";
+
+export const Route = createFileRoute("/u/$username")({
+  component: ProfilePage,
+});
+
+const MAX_NEIGHBOURS = 12;
+
+function ProfilePage() {
+  const { username } = Route.useParams();
+  const profileResult = useQuery(profileByUsernameQuery(username));
+  const profile = profileResult.data ?? null;
+  const neighboursResult = useQuery({
+    ...profilesByProvinceQuery(profile?.provincia_id ?? 0),
+    enabled: !!profile?.provincia_id,
+  });
+  const neighbours = (neighboursResult.data ?? []).filter(
+    (p) => p.id !== profile?.id,
+  );
+  const loading =
+    profileResult.isPending ||
+    (!!profile?.provincia_id && neighboursResult.isPending);
+
+  return (
+    <div className='min-h-screen bg-background text-foreground'>
+      <header className='flex items-center gap-3 px-6 py-3 border-b border-border bg-card'>
+        <Link to='/'>
+          <Button variant='ghost' size='icon'>
+            <ArrowLeft className='h-4 w-4' />
+          </Button>
+        </Link>
+        <h1 className='text-xl font-bold tracking-tight'>@{username}</h1>
+      </header>
+
+      <main className='max-w-2xl mx-auto px-6 py-10 space-y-8'>
+        {profileResult.isError ? (
+          <DataErrorBanner
+            error={profileResult.error}
+            retrying={profileResult.isFetching}
+            onRetry={() => profileResult.refetch()}
+          />
+        ) : loading ? (
+          <p className='text-sm text-muted-foreground'>Cargando perfil...</p>
+        ) : !profile ? (
+          <p className='text-sm text-muted-foreground'>
+            No hay ningún miembro con el usuario @{username}.
+          </p>
+        ) : (
+          <>
+            <section className='flex flex-col items-center gap-4 text-center'>
+              <MemberAvatar
+                profile={profile}
+                size={96}
+                className='h-24 w-24 border-2 border-[#1d9bf0]'
+                fallbackClassName='text-3xl'
+              />
+              <div className='space-y-1'>
+                <h2 className='text-2xl font-bold'>
+                  {profile.full_name ?? "Sin nombre"}
+                </h2>
+                {profile.username && (
+                  <p className='text-muted-foreground'>@{profile.username}</p>
+                )}
+              </div>
+
+              {profile.bio && (
+                <p className='max-w-md text-sm whitespace-pre-line'>{profile.bio}</p>
+              )}
+
+              <div className='flex flex-wrap justify-center gap-4 text-sm text-muted-foreground'>
+                {profile.provincias?.codigo_ine && (
+                  <Link
+                    to='/provincia/$codigo'
+                    params={{ codigo: profile.provincias.codigo_ine }}
+                    className='flex items-center gap-1 hover:text-foreground transition-colors'>
+                    <MapPin className='h-4 w-4' />
+                    {/* Never the municipality: the map only hints at it */}
+                    {profile.islas
+                      ? `${profile.islas.nombre} (${profile.provincias.nombre})`
+                      : profile.provincias.nombre}
+                  </Link>
+                )}
+                {profile.links.map((link) => (
+                  <a
+                    key={link}
+                    href={link}
+                    target='_blank'
+                    rel='noopener noreferrer nofollow'
+                    className='flex items-center gap-1 hover:text-foreground transition-colors'>
+                    <LinkIcon className='h-4 w-4' />
+                    {link.replace(/^https?:\/\/(www\.)?/, "").replace(/\/$/, "")}
+                  </a>
+                ))}
+                <span className='flex items-center gap-1'>
+                  <CalendarDays className='h-4 w-4' />
+                  Se unió en{" "}
+                  {new Date(profile.created_at).toLocaleDateString("es-ES", {
+                    month: "long",
+                    year: "numeric",
+                  })}
+                </span>
+              </div>
+
+              <div className='flex flex-wrap justify-center gap-3'>
+                {profile.username && (
+                  <a
+                    href={`https://x.com/intent/follow?screen_name=${encodeURIComponent(profile.username)}`}
+                    target='_blank'
+                    rel='noopener noreferrer'
+                    className='follow-btn'>
+                    <svg
+                      viewBox='0 0 24 24'
+                      width='14'
+                      height='14'
+                      fill='currentColor'>
+                      <path d='M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z' />
+                    </svg>
+                    Seguir
+                  </a>
+                )}
+                {profile.provincias && profile.username && (
+                  <Link to='/' search={{ u: profile.username }}>
+                    <Button variant='outline' size='sm' className='gap-2'>
+                      <MapPin className='h-4 w-4' />
+                      Ver en el mapa
+                    </Button>
+                  </Link>
+                )}
+              </div>
+            </section>
+
+            {profile.provincias && (
+              <section className='space-y-3'>
+                <h3 className='text-lg font-semibold'>
+                  Vecinos en {profile.provincias.nombre}
+                </h3>
+                {neighbours.length === 0 ? (
+                  <p className='text-sm text-muted-foreground'>
+                    Todavía no hay nadie más en esta provincia.
+                  </p>
+                ) : (
+                  <ul className='grid gap-3 sm:grid-cols-2'>
+                    {neighbours.slice(0, MAX_NEIGHBOURS).map((n) => (
+                      <li key={n.id}>
+                        <Card className='py-3'>
+                          <CardContent className='px-3 flex items-center gap-3'>
+                            <MemberAvatar
+                              profile={n}
+                              size={32}
+                              className='h-8 w-8'
+                              fallbackClassName='text-xs'
+                            />
+                            {n.username ? (
+                              <Link
+                                to='/u/$username'
+                                params={{ username: n.username }}
+                                className='text-sm font-medium truncate hover:underline underline-offset-2'>
+                                {n.full_name ?? n.username}
+                              </Link>
+                            ) : (
+                              <span className='text-sm font-medium truncate'>
+                                {n.full_name ?? "Sin nombre"}
+                              </span>
+                            )}
+                          </CardContent>
+                        </Card>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {neighbours.length > MAX_NEIGHBOURS &&
+                  profile.provincias.codigo_ine && (
+                    <Link
+                      to='/provincia/$codigo'
+                      params={{ codigo: profile.provincias.codigo_ine }}
+                      className='text-sm text-primary hover:underline underline-offset-2'>
+                      Ver los {neighbours.length + 1} miembros
+                    </Link>
+                  )}
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+// Caching proxy for member avatars, so the map doesn't depend on X's image
+// URLs staying valid. It doesn't resize: `size` picks the smallest variant X
+// already serves that covers it (_mini up to _400x400), and the browser
+// scales that down. Images can't send an Authorization header: deploy with
+// --no-verify-jwt.
+//
+//   GET /functions/v1/avatar-proxy?url=<avatar_url>&size=<pixels>
+//
+// Point VITE_AVATAR_PROXY_URL at it; without it the app picks the same
+// variants straight from X (src/lib/avatars.ts) and only the browser caches.
+
+import { variantUrl } from "./variants.ts";
+
+/** Only X's image host; anything else would make this an open proxy */
+const ALLOWED_HOSTS = new Set(["pbs.twimg.com"]);
+
+/** A week: X changes the URL when the picture changes */
+const CACHE_CONTROL = "public, max-age=604800, stale-while-revalidate=86400";
+
+Deno.serve(async (req) => {
+  const params = new URL(req.url).searchParams;
+  let target: URL;
+  try {
+    target = new URL(params.get("url") ?? "");
+  } catch {
+    return new Response("url no válida", { status: 400 });
+  }
+  if (target.protocol !== "https:" || !ALLOWED_HOSTS.has(target.hostname)) {
+    return new Response("origen no permitido", { status: 400 });
+  }
+  const pixels = Math.min(Math.max(Number(params.get("size")) || 48, 1), 400);
+
+  // Not every edge runtime has the Cache API; cache-control still applies
+  const cache = "caches" in globalThis ? await caches.open("avatars") : null;
+  const cacheKey = new Request(variantUrl(target, pixels));
+  const cached = await cache?.match(cacheKey);
+  if (cached) return cached;
+
+  const upstream = await fetch(cacheKey);
+  // Expired pictures answer 404, which the app turns into the initials
+  if (!upstream.ok || !upstream.headers.get("content-type")?.startsWith("image/")) {
+    return new Response("imagen no disponible", { status: 404 });
+  }
+  const response = new Response(upstream.body, {
+    headers: {
+      "content-type": upstream.headers.get("content-type")!,
+      "cache-control": CACHE_CONTROL,
+      "access-control-allow-origin": "*",
+    },
+  });
+  await cache?.put(cacheKey, response.clone());
+  return response;
+});
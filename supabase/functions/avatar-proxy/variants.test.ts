@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { variantUrl } from "./variants.ts";
+
+const avatar = (suffix: string) =>
+  new URL(`https://pbs.twimg.com/profile_images/1234/AbCd${suffix}`);
+
+describe("variantUrl", () => {
+  it("picks the smallest variant covering the size", () => {
+    expect(variantUrl(avatar("_normal.jpg"), 24)).toBe(avatar("_mini.jpg").href);
+    expect(variantUrl(avatar("_normal.jpg"), 49)).toBe(avatar("_bigger.jpg").href);
+    expect(variantUrl(avatar("_normal.jpg"), 96)).toBe(avatar("_200x200.jpg").href);
+  });
+
+  it("stops at the largest variant", () => {
+    expect(variantUrl(avatar("_normal.png"), 1200)).toBe(avatar("_400x400.png").href);
+  });
+
+  it("keeps a URL without an extension or a size suffix", () => {
+    expect(variantUrl(avatar("_400x400"), 48)).toBe(avatar("_normal").href);
+    expect(variantUrl(avatar(".jpg"), 48)).toBe(avatar(".jpg").href);
+  });
+});
@@ -0,0 +1,25 @@
+// Picking the X size variant, kept apart from the handler so it can be
+// tested without Deno. Same table as src/lib/avatars.ts.
+
+/** Sizes X serves every profile image at, smallest first */
+const X_VARIANTS = [
+  { suffix: "_mini", pixels: 24 },
+  { suffix: "_normal", pixels: 48 },
+  { suffix: "_bigger", pixels: 73 },
+  { suffix: "_200x200", pixels: 200 },
+  { suffix: "_400x400", pixels: 400 },
+];
+
+const X_VARIANT_PATTERN = /_(mini|normal|bigger|200x200|400x400)(\.\w+)?$/;
+
+/**
+ * The smallest variant X serves that covers `pixels`, or the largest one.
+ * URLs without a size suffix come back unchanged.
+ */
+export function variantUrl(url: URL, pixels: number): string {
+  const variant = X_VARIANTS.find((v) => v.pixels >= pixels) ?? X_VARIANTS.at(-1)!;
+  return url.href.replace(
+    X_VARIANT_PATTERN,
+    (_: string, _size: string, ext = "") => `${variant.suffix}${ext}`,
+  );
+}
@@ -0,0 +1,9 @@
+-- Join date for public profile pages.
+alter table public.profiles
+  add column if not exists created_at timestamptz not null default now();
+
+-- Existing members joined when their auth user was created
+update public.profiles p
+set created_at = u.created_at
+from auth.users u
+where u.id = p.id;
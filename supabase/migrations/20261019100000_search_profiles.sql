@@ -0,0 +1,33 @@
+-- Member search for the header search box: prefix match on any word of the
+-- name or on the username, ignoring case and accents.
+create extension if not exists unaccent with schema extensions;
+
+create or replace function public.search_profiles(
+  query text,
+  max_results integer default 8
+)
+returns setof public.profiles
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with needle as (
+    select unaccent(lower(trim(
+      replace(replace(replace(query, '\', '\\'), '%', '\%'), '_', '\_')
+    ))) as q
+  )
+  select p.*
+  from public.profiles p, needle
+  where needle.q <> ''
+    and (
+      unaccent(lower(coalesce(p.full_name, ''))) like needle.q || '%'
+      or unaccent(lower(coalesce(p.full_name, ''))) like '% ' || needle.q || '%'
+      or lower(coalesce(p.username, '')) like ltrim(needle.q, '@') || '%'
+    )
+  order by
+    lower(coalesce(p.username, '')) = ltrim(needle.q, '@') desc,
+    p.full_name
+  limit least(greatest(max_results, 1), 50);
+$$;
+
+grant execute on function public.search_profiles(text, integer) to anon, authenticated;
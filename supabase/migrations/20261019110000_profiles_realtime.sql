@@ -0,0 +1,14 @@
+-- Live map updates: broadcast profile inserts, updates and deletes.
+-- Deletes only need the primary key, so the default replica identity is enough.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'profiles'
+  ) then
+    alter publication supabase_realtime add table public.profiles;
+  end if;
+end
+$$;
@@ -0,0 +1,44 @@
+-- Islands the map draws as separate features, so members can pick one.
+create table if not exists public.islas (
+  id serial primary key,
+  nombre text not null unique,
+  provincia_id integer not null references public.provincias (id) on delete cascade,
+  -- Target of the composite key on profiles
+  unique (id, provincia_id)
+);
+
+alter table public.islas enable row level security;
+
+create policy "Islas visibles para todos"
+  on public.islas for select
+  using (true);
+
+insert into public.islas (nombre, provincia_id)
+select i.nombre, p.id
+from (
+  values
+    ('Mallorca', '07'),
+    ('Menorca', '07'),
+    ('Ibiza', '07'),
+    ('Formentera', '07'),
+    ('Lanzarote', '35'),
+    ('Fuerteventura', '35'),
+    ('Gran Canaria', '35'),
+    ('Tenerife', '38'),
+    ('La Palma', '38'),
+    ('La Gomera', '38'),
+    ('El Hierro', '38')
+) as i (nombre, codigo_ine)
+join public.provincias p on p.codigo_ine = i.codigo_ine
+on conflict (nombre) do nothing;
+
+-- Optional island; the composite key keeps it inside the member's province,
+-- so a province change has to set or clear it in the same update.
+alter table public.profiles
+  add column if not exists isla_id integer;
+
+alter table public.profiles
+  add constraint profiles_isla_fkey
+  foreign key (isla_id, provincia_id)
+  references public.islas (id, provincia_id)
+  on delete set null (isla_id);
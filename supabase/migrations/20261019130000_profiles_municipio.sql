@@ -0,0 +1,32 @@
+-- Optional municipality, as its five-digit INE code. The list itself ships
+-- with the app; the map only ever shows it snapped to a coarse grid.
+alter table public.profiles
+  add column if not exists municipio_codigo text
+  constraint profiles_municipio_codigo_check check (municipio_codigo ~ '^\d{5}$');
+
+-- The province is derived from the municipality, so every view that works
+-- by province keeps working unchanged.
+create or replace function public.profiles_derive_provincia()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.municipio_codigo is not null then
+    select id into new.provincia_id
+    from public.provincias
+    where codigo_ine = left(new.municipio_codigo, 2);
+
+    if new.provincia_id is null then
+      raise exception 'Municipio % sin provincia', new.municipio_codigo
+        using errcode = '23503';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_derive_provincia on public.profiles;
+create trigger profiles_derive_provincia
+  before insert or update of municipio_codigo, provincia_id on public.profiles
+  for each row execute function public.profiles_derive_provincia();
@@ -0,0 +1,60 @@
+-- Who can see a member on the map:
+--   public     everyone, signed in or not
+--   members    signed-in members only; counted for everyone else
+--   anonymous  nobody sees the row, but it counts towards totals
+--   hidden     not shown and not counted
+create type public.profile_visibility as enum ('public', 'members', 'anonymous', 'hidden');
+
+alter table public.profiles
+  add column if not exists visibility public.profile_visibility not null default 'public';
+
+-- Replace whatever select policies profiles had (it used to be readable by
+-- everyone) with the visibility-aware ones below.
+do $$
+declare
+  pol record;
+begin
+  for pol in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'profiles' and cmd = 'SELECT'
+  loop
+    execute format('drop policy %I on public.profiles', pol.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Perfiles públicos visibles para todos"
+  on public.profiles for select
+  using (visibility = 'public');
+
+create policy "Perfiles de miembros visibles con sesión"
+  on public.profiles for select
+  to authenticated
+  using (visibility = 'members');
+
+create policy "Cada miembro ve su propio perfil"
+  on public.profiles for select
+  to authenticated
+  using (auth.uid() = id);
+
+-- Members the caller can't read but who still count, per province and
+-- island. The caller's own row is left out: they already read it directly.
+create or replace function public.anonymous_profile_counts()
+returns table (provincia_id integer, isla_id integer, total integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.provincia_id, p.isla_id, count(*)::integer as total
+  from public.profiles p
+  where p.provincia_id is not null
+    and p.id is distinct from auth.uid()
+    and (
+      p.visibility = 'anonymous'
+      or (p.visibility = 'members' and auth.uid() is null)
+    )
+  group by p.provincia_id, p.isla_id;
+$$;
+
+grant execute on function public.anonymous_profile_counts() to anon, authenticated;
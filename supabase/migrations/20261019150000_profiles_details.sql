@@ -0,0 +1,28 @@
+-- Details members edit from the settings page: a short bio and up to three
+-- links. Usernames become editable too, so they need the same rules as X
+-- handles and must stay unique regardless of case.
+alter table public.profiles
+  add column if not exists bio text,
+  add column if not exists links text[] not null default '{}';
+
+-- Subqueries aren't allowed in check constraints, hence the helper
+create or replace function public.are_web_links(links text[])
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(bool_and(link ~* '^https?://[^\s]+$'), true) from unnest(links) as link;
+$$;
+
+alter table public.profiles
+  add constraint profiles_bio_length check (char_length(bio) <= 160),
+  add constraint profiles_links_count check (cardinality(links) <= 3),
+  add constraint profiles_links_web check (public.are_web_links(links));
+
+-- Existing rows were copied from X and may predate these rules
+alter table public.profiles
+  add constraint profiles_username_format
+  check (username ~ '^[A-Za-z0-9_]{1,15}$') not valid;
+
+create unique index if not exists profiles_username_lower_key
+  on public.profiles (lower(username));
@@ -0,0 +1,51 @@
+-- Name, avatar and username come from the X identity and go stale when the
+-- member changes them on X. The app pushes the latest values on every
+-- sign-in; fields the member edited in the settings page are left alone.
+alter table public.profiles
+  add column if not exists overridden_fields text[] not null default '{}',
+  add column if not exists identity_synced_at timestamptz;
+
+alter table public.profiles
+  add constraint profiles_overridden_fields_known
+  check (overridden_fields <@ array['full_name', 'avatar_url', 'username']);
+
+-- Runs as definer so the username check sees every row, not just the ones
+-- the caller may read; it only ever writes the caller's own row. A handle
+-- someone else already took in-app keeps the current username.
+create or replace function public.sync_profile_identity(
+  new_full_name text,
+  new_avatar_url text,
+  new_username text
+)
+returns void
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  update public.profiles p
+  set
+    full_name = case
+      when 'full_name' = any(p.overridden_fields) then p.full_name
+      else coalesce(nullif(trim(new_full_name), ''), p.full_name)
+    end,
+    avatar_url = case
+      when 'avatar_url' = any(p.overridden_fields) then p.avatar_url
+      else coalesce(nullif(new_avatar_url, ''), p.avatar_url)
+    end,
+    username = case
+      when 'username' = any(p.overridden_fields)
+        or new_username !~ '^[A-Za-z0-9_]{1,15}$'
+        or exists (
+          select 1 from public.profiles o
+          where lower(o.username) = lower(new_username) and o.id <> p.id
+        )
+      then p.username
+      else new_username
+    end,
+    identity_synced_at = now()
+  where p.id = auth.uid();
+$$;
+
+revoke execute on function public.sync_profile_identity(text, text, text) from public, anon;
+grant execute on function public.sync_profile_identity(text, text, text) to authenticated;
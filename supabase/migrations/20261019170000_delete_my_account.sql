@@ -0,0 +1,29 @@
+-- Deleting an account has to remove the auth user too: with only the
+-- profile gone, the X identity survives and the next sign-in recreates it.
+-- Runs as definer because only the owner may delete from auth.users.
+create or replace function public.delete_my_account()
+returns table (user_id uuid, deleted_at timestamptz)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'No hay sesión activa' using errcode = '42501';
+  end if;
+
+  -- Every table with rows about the user, before the user itself
+  delete from public.profiles where id = uid;
+
+  -- Identities, sessions and refresh tokens cascade from auth.users
+  delete from auth.users where id = uid;
+
+  return query select uid, now();
+end;
+$$;
+
+revoke execute on function public.delete_my_account() from public, anon;
+grant execute on function public.delete_my_account() to authenticated;
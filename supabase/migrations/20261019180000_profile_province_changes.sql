@@ -0,0 +1,102 @@
+-- Every time a member places themselves or moves to another province.
+-- Rows outlive the account: deleting it unlinks them (profile_id becomes
+-- null) so the statistics keep the move without saying whose it was.
+create table if not exists public.profile_province_changes (
+  id bigint generated always as identity primary key,
+  profile_id uuid references public.profiles (id) on delete set null,
+  -- Null for the first placement
+  from_provincia_id integer references public.provincias (id),
+  to_provincia_id integer not null references public.provincias (id),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists profile_province_changes_profile_idx
+  on public.profile_province_changes (profile_id, changed_at desc);
+create index if not exists profile_province_changes_changed_at_idx
+  on public.profile_province_changes (changed_at);
+
+alter table public.profile_province_changes enable row level security;
+
+-- Only the triggers below write; members read their own history
+create policy "Cada miembro ve su historial de provincias"
+  on public.profile_province_changes for select
+  to authenticated
+  using (auth.uid() = profile_id);
+
+-- Members who were already on the map; when they placed themselves isn't
+-- known, so their sign-up date stands in for it
+insert into public.profile_province_changes (profile_id, to_provincia_id, changed_at)
+select p.id, p.provincia_id, p.created_at
+from public.profiles p
+where p.provincia_id is not null
+  and not exists (
+    select 1 from public.profile_province_changes c where c.profile_id = p.id
+  );
+
+-- Moving is limited to one change an hour and three a day; the first
+-- placement doesn't count. Keep in sync with src/lib/provinceChanges.ts.
+-- SQLSTATE PT429 makes PostgREST answer 429 Too Many Requests.
+create or replace function public.profiles_limit_province_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  last_change timestamptz;
+  changes_today integer;
+begin
+  if old.provincia_id is null
+    or new.provincia_id is not distinct from old.provincia_id then
+    return new;
+  end if;
+
+  select max(changed_at), count(*)
+  into last_change, changes_today
+  from public.profile_province_changes
+  where profile_id = new.id
+    and from_provincia_id is not null
+    and changed_at > now() - interval '24 hours';
+
+  if last_change > now() - interval '1 hour' then
+    raise exception 'Cambio de provincia demasiado seguido'
+      using errcode = 'PT429';
+  end if;
+  if changes_today >= 3 then
+    raise exception 'Límite diario de cambios de provincia alcanzado'
+      using errcode = 'PT429';
+  end if;
+  return new;
+end;
+$$;
+
+-- Named to sort after profiles_derive_provincia, so it sees the province
+-- derived from the municipality
+drop trigger if exists profiles_limit_province_changes on public.profiles;
+create trigger profiles_limit_province_changes
+  before update of provincia_id, municipio_codigo on public.profiles
+  for each row execute function public.profiles_limit_province_changes();
+
+create or replace function public.profiles_record_province_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous integer := case when tg_op = 'UPDATE' then old.provincia_id end;
+begin
+  if new.provincia_id is not null
+    and new.provincia_id is distinct from previous then
+    insert into public.profile_province_changes (profile_id, from_provincia_id, to_provincia_id)
+    values (new.id, previous, new.provincia_id);
+  end if;
+  return null;
+end;
+$$;
+
+-- After the row is written, so the foreign key to it holds on insert
+drop trigger if exists profiles_record_province_change on public.profiles;
+create trigger profiles_record_province_change
+  after insert or update of provincia_id, municipio_codigo on public.profiles
+  for each row execute function public.profiles_record_province_change();
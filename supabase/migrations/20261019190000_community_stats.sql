@@ -0,0 +1,51 @@
+-- Aggregates for the statistics page, so the browser never loads every
+-- profile. Run as definer to count members the caller can't read; hidden
+-- members are left out, as they are from every other total.
+create or replace function public.province_member_totals()
+returns table (provincia_id integer, total integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.provincia_id, count(*)::integer as total
+  from public.profiles p
+  where p.provincia_id is not null
+    and p.visibility <> 'hidden'
+  group by p.provincia_id;
+$$;
+
+grant execute on function public.province_member_totals() to anon, authenticated;
+
+-- Sign-ups and moves between provinces per month, Spanish time. Moves of
+-- deleted accounts still count: the history keeps them unlinked.
+create or replace function public.community_growth()
+returns table (month date, joined integer, moves integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with joins as (
+    select date_trunc('month', p.created_at at time zone 'Europe/Madrid')::date as month,
+      count(*)::integer as total
+    from public.profiles p
+    where p.visibility <> 'hidden'
+    group by 1
+  ),
+  moves as (
+    select date_trunc('month', c.changed_at at time zone 'Europe/Madrid')::date as month,
+      count(*)::integer as total
+    from public.profile_province_changes c
+    left join public.profiles p on p.id = c.profile_id
+    where c.from_provincia_id is not null
+      and p.visibility is distinct from 'hidden'
+    group by 1
+  )
+  select month, coalesce(j.total, 0), coalesce(m.total, 0)
+  from joins j
+  full join moves m using (month)
+  order by month;
+$$;
+
+grant execute on function public.community_growth() to anon, authenticated;
@@ -0,0 +1,33 @@
+-- Every placement and move of current members, oldest first, for replaying
+-- how the map filled in. Members the caller can't read still move the
+-- counts, but without saying who they are. Hidden members and deleted
+-- accounts are left out, so the last frame matches today's map.
+create or replace function public.community_timeline()
+returns table (
+  changed_at timestamptz,
+  profile_id uuid,
+  from_provincia_id integer,
+  to_provincia_id integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.changed_at,
+    case
+      when p.visibility = 'public'
+        or (p.visibility = 'members' and auth.uid() is not null)
+        or p.id = auth.uid()
+      then p.id
+    end,
+    c.from_provincia_id,
+    c.to_provincia_id
+  from public.profile_province_changes c
+  join public.profiles p on p.id = c.profile_id
+  where p.visibility <> 'hidden'
+  order by c.changed_at, c.id;
+$$;
+
+grant execute on function public.community_timeline() to anon, authenticated;
@@ -0,0 +1,45 @@
+-- Leaving the map (provincia_id back to null) isn't recorded, and coming
+-- back from null wasn't counted, so X → null → Y → null → Z skipped the
+-- limit. Only a member's very first placement is free now; returning after
+-- leaving counts as a move. Keep in sync with src/lib/provinceChanges.ts.
+create or replace function public.profiles_limit_province_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  first_placement bigint;
+  last_change timestamptz;
+  changes_today integer;
+begin
+  if new.provincia_id is null
+    or new.provincia_id is not distinct from old.provincia_id then
+    return new;
+  end if;
+
+  select min(id) into first_placement
+  from public.profile_province_changes
+  where profile_id = new.id;
+  if first_placement is null then
+    return new;
+  end if;
+
+  select max(changed_at), count(*)
+  into last_change, changes_today
+  from public.profile_province_changes
+  where profile_id = new.id
+    and id <> first_placement
+    and changed_at > now() - interval '24 hours';
+
+  if last_change > now() - interval '1 hour' then
+    raise exception 'Cambio de provincia demasiado seguido'
+      using errcode = 'PT429';
+  end if;
+  if changes_today >= 3 then
+    raise exception 'Límite diario de cambios de provincia alcanzado'
+      using errcode = 'PT429';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,32 @@
+-- Realtime only sends a viewer the rows RLS lets them read, so nobody hears
+-- about a member going anonymous or hidden, or about anonymous members
+-- arriving, moving or leaving. For those changes a "refresh" is broadcast
+-- on the map's channel and clients fetch the lists and counts again.
+create or replace function public.profiles_broadcast_refresh()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  unseen boolean := false;
+begin
+  if tg_op <> 'INSERT' then
+    unseen := old.visibility <> 'public';
+  end if;
+  if tg_op <> 'DELETE' then
+    unseen := unseen or new.visibility <> 'public';
+  end if;
+
+  if unseen then
+    perform realtime.send('{}'::jsonb, 'refresh', 'profiles-changes', false);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_broadcast_refresh on public.profiles;
+create trigger profiles_broadcast_refresh
+  after insert or delete or update of visibility, provincia_id, isla_id
+  on public.profiles
+  for each row execute function public.profiles_broadcast_refresh();
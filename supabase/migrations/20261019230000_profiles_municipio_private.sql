@@ -0,0 +1,71 @@
+-- The exact municipality is for its owner only. Everyone else gets the
+-- ~5 km grid cell the map draws the member in, "lat,lng", which the app
+-- computes from its bundled municipality list when saving the location.
+-- Members who picked a municipality before this stay spread over their
+-- province until they save it again: the cells can't be derived here.
+alter table public.profiles
+  add column if not exists municipio_celda text
+  constraint profiles_municipio_celda_check
+    check (municipio_celda ~ '^-?\d+(\.\d+)?,-?\d+(\.\d+)?$');
+
+-- Column privileges sit on top of the row policies: every column but
+-- municipio_codigo stays readable wherever the row is
+revoke select on public.profiles from anon, authenticated;
+grant select (
+  id, full_name, avatar_url, username, bio, links, overridden_fields,
+  identity_synced_at, provincia_id, isla_id, municipio_celda, visibility,
+  created_at, updated_at
+) on public.profiles to anon, authenticated;
+
+-- A member's own municipality; null for anyone else's
+create or replace function public.profile_municipio(profile_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select municipio_codigo
+  from public.profiles
+  where id = profile_id
+    and id = auth.uid();
+$$;
+
+grant execute on function public.profile_municipio(uuid) to authenticated;
+
+-- search_profiles read whole rows as the caller, which the column grants
+-- no longer allow. It now reads as its owner, applies the select policies
+-- itself and blanks the municipality.
+create or replace function public.search_profiles(
+  query text,
+  max_results integer default 8
+)
+returns setof public.profiles
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  with needle as (
+    select unaccent(lower(trim(
+      replace(replace(replace(query, '\', '\\'), '%', '\%'), '_', '\_')
+    ))) as q
+  )
+  select (jsonb_populate_record(p, '{"municipio_codigo": null}'::jsonb)).*
+  from public.profiles p, needle
+  where needle.q <> ''
+    and (
+      p.visibility = 'public'
+      or (p.visibility = 'members' and auth.uid() is not null)
+      or p.id = auth.uid()
+    )
+    and (
+      unaccent(lower(coalesce(p.full_name, ''))) like needle.q || '%'
+      or unaccent(lower(coalesce(p.full_name, ''))) like '% ' || needle.q || '%'
+      or lower(coalesce(p.username, '')) like ltrim(needle.q, '@') || '%'
+    )
+  order by
+    lower(coalesce(p.username, '')) = ltrim(needle.q, '@') desc,
+    p.full_name
+  limit least(greatest(max_results, 1), 50);
+$$;
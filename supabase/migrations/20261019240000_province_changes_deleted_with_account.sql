@@ -0,0 +1,36 @@
+-- Deleting an account unlinked its province history instead of removing it
+-- (on delete set null), so the moves outlived the member. They're deleted
+-- with the profile now, and the rows already orphaned go too.
+delete from public.profile_province_changes where profile_id is null;
+
+alter table public.profile_province_changes
+  drop constraint profile_province_changes_profile_id_fkey,
+  add constraint profile_province_changes_profile_id_fkey
+    foreign key (profile_id) references public.profiles (id) on delete cascade,
+  alter column profile_id set not null;
+
+create or replace function public.delete_my_account()
+returns table (user_id uuid, deleted_at timestamptz)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'No hay sesión activa' using errcode = '42501';
+  end if;
+
+  -- Every table with rows about the user, before the user itself. The
+  -- foreign key cascades too; deleting here doesn't depend on it.
+  delete from public.profile_province_changes where profile_id = uid;
+  delete from public.profiles where id = uid;
+
+  -- Identities, sessions and refresh tokens cascade from auth.users
+  delete from auth.users where id = uid;
+
+  return query select uid, now();
+end;
+$$;